@@ -0,0 +1,2 @@
+// Fixture chunk standing in for the webpack output of app/_not-found/page.js
+(self.webpackChunk_N_E = self.webpackChunk_N_E || []).push([[5361], { 17963: function (e, t, n) { "use strict"; n.r(t); t.default = function () { return null; }; } }]);
@@ -0,0 +1,2 @@
+// Fixture chunk standing in for the webpack output of link.js
+(self.webpackChunk_N_E = self.webpackChunk_N_E || []).push([[577], { 4088: function (e, t, n) { "use strict"; n.r(t); t.default = function () { return null; }; } }]);
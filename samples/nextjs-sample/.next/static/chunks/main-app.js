@@ -0,0 +1,2 @@
+// Fixture chunk standing in for the webpack output of main-app.js
+(self.webpackChunk_N_E = self.webpackChunk_N_E || []).push([[6272], { 78990: function (e, t, n) { "use strict"; n.r(t); t.default = function () { return null; }; } }]);
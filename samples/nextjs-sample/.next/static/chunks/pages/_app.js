@@ -0,0 +1,2 @@
+// Fixture chunk standing in for the webpack output of pages/_app.js
+(self.webpackChunk_N_E = self.webpackChunk_N_E || []).push([[3610], { 11562: function (e, t, n) { "use strict"; n.r(t); t.default = function () { return null; }; } }]);
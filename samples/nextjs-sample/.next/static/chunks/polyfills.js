@@ -0,0 +1,2 @@
+// Fixture chunk standing in for the webpack output of polyfills.js
+(self.webpackChunk_N_E = self.webpackChunk_N_E || []).push([[7678], { 61534: function (e, t, n) { "use strict"; n.r(t); t.default = function () { return null; }; } }]);
@@ -4,6 +4,14 @@ interface BlogPostProps {
   }
 }
 
+export function generateStaticParams() {
+  return [
+    { slug: 'nextjs-13-features' },
+    { slug: 'app-router-guide' },
+    { slug: 'server-components' }
+  ]
+}
+
 export default function BlogPost({ params }: BlogPostProps) {
   const { slug } = params
 
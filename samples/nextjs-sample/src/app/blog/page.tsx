@@ -1,5 +1,7 @@
 import Link from 'next/link'
 
+export const revalidate = 60
+
 export default function BlogPage() {
   const posts = [
     { slug: 'nextjs-13-features', title: 'Next.js 13 New Features' },
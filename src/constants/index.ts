@@ -2,6 +2,16 @@
 export {
   RouteFileType,
   RoutingPattern,
+  RouterType,
+  HttpMethod,
+  RouteHandlerMethod,
+  RouteSegmentConfig,
+  SegmentConfigKey,
+  ResolvedSegmentConfig,
+  ComponentType,
+  ComponentClassification,
+  RenderMode,
+  RouteBuildInfo,
   NextjsRouteItem,
   RouteInfo,
   NextJsRouteConfig
@@ -10,10 +20,23 @@ export {
 // Re-export all patterns and utilities
 export {
   FILE_PATTERNS,
+  FilePatterns,
+  DEFAULT_PAGE_EXTENSIONS,
+  METADATA_ASSET_EXTENSIONS,
+  buildFilePatterns,
+  buildPagesFilePattern,
+  getRouteFileExtensions,
+  METADATA_FILE_TYPES,
+  METADATA_ROUTE_NAMES,
   SEGMENT_PATTERNS,
   ROUTE_PATTERNS,
   RESERVED_FILENAMES,
   DEFAULT_EXCLUDE_PATTERNS,
+  SOURCE_FILE_GLOB,
+  SOURCE_EXCLUDE_GLOB,
+  SOURCE_LANGUAGE_IDS,
+  PAGES_SPECIAL_FILES,
+  PAGES_FILE_EXTENSION,
   getFileType,
   getRoutingPattern
 } from './patterns';
\ No newline at end of file
@@ -1,17 +1,103 @@
 import { RouteFileType, RoutingPattern } from './types';
 
-// File type patterns for Next.js App Router
-export const FILE_PATTERNS = {
-  [RouteFileType.Page]: /^page\.(tsx?|jsx?)$/,
-  [RouteFileType.Layout]: /^layout\.(tsx?|jsx?)$/,
-  [RouteFileType.Loading]: /^loading\.(tsx?|jsx?)$/,
-  [RouteFileType.Error]: /^error\.(tsx?|jsx?)$/,
-  [RouteFileType.NotFound]: /^not-found\.(tsx?|jsx?)$/,
-  [RouteFileType.Route]: /^route\.(ts|js)$/,
-  [RouteFileType.Template]: /^template\.(tsx?|jsx?)$/,
-  [RouteFileType.Default]: /^default\.(tsx?|jsx?)$/,
-  [RouteFileType.GlobalError]: /^global-error\.(tsx?|jsx?)$/,
-} as const;
+// Default next.config pageExtensions
+export const DEFAULT_PAGE_EXTENSIONS = ['tsx', 'ts', 'jsx', 'js'];
+
+// Static asset extensions of metadata files; code-based ones use the page extensions
+export const METADATA_ASSET_EXTENSIONS: Partial<Record<RouteFileType, string[]>> = {
+  [RouteFileType.OpenGraphImage]: ['jpg', 'jpeg', 'png', 'gif'],
+  [RouteFileType.TwitterImage]: ['jpg', 'jpeg', 'png', 'gif'],
+  [RouteFileType.Icon]: ['ico', 'jpg', 'jpeg', 'png', 'svg'],
+  [RouteFileType.AppleIcon]: ['jpg', 'jpeg', 'png'],
+  [RouteFileType.Sitemap]: ['xml'],
+  [RouteFileType.Robots]: ['txt'],
+  [RouteFileType.Manifest]: ['json', 'webmanifest']
+};
+
+export type FilePatterns = Partial<Record<RouteFileType, RegExp>>;
+
+/**
+ * Build App Router file patterns for a set of page extensions
+ * (next.config pageExtensions: ['page.tsx', 'mdx'] makes page.page.tsx and page.mdx pages)
+ */
+export function buildFilePatterns(pageExtensions: string[]): FilePatterns {
+  const code = pageExtensions.map(escapeRegExp).join('|');
+  const assets = (fileType: RouteFileType) => [...METADATA_ASSET_EXTENSIONS[fileType]!.map(escapeRegExp), code].join('|');
+
+  return {
+    [RouteFileType.Page]: new RegExp(`^page\\.(${code})$`),
+    [RouteFileType.Layout]: new RegExp(`^layout\\.(${code})$`),
+    [RouteFileType.Loading]: new RegExp(`^loading\\.(${code})$`),
+    [RouteFileType.Error]: new RegExp(`^error\\.(${code})$`),
+    [RouteFileType.NotFound]: new RegExp(`^not-found\\.(${code})$`),
+    [RouteFileType.Route]: new RegExp(`^route\\.(${code})$`),
+    [RouteFileType.Template]: new RegExp(`^template\\.(${code})$`),
+    [RouteFileType.Default]: new RegExp(`^default\\.(${code})$`),
+    [RouteFileType.GlobalError]: new RegExp(`^global-error\\.(${code})$`),
+    // Metadata files: static assets or files generating them
+    [RouteFileType.OpenGraphImage]: new RegExp(`^opengraph-image\\.(${assets(RouteFileType.OpenGraphImage)})$`),
+    [RouteFileType.TwitterImage]: new RegExp(`^twitter-image\\.(${assets(RouteFileType.TwitterImage)})$`),
+    [RouteFileType.Icon]: new RegExp(`^(icon\\d*\\.(${assets(RouteFileType.Icon)})|favicon\\.ico)$`),
+    [RouteFileType.AppleIcon]: new RegExp(`^apple-icon\\d*\\.(${assets(RouteFileType.AppleIcon)})$`),
+    [RouteFileType.Sitemap]: new RegExp(`^sitemap\\.(${assets(RouteFileType.Sitemap)})$`),
+    [RouteFileType.Robots]: new RegExp(`^robots\\.(${assets(RouteFileType.Robots)})$`),
+    [RouteFileType.Manifest]: new RegExp(`^manifest\\.(${assets(RouteFileType.Manifest)})$`)
+  };
+}
+
+/**
+ * Build the Pages Router module pattern: every file ending in a page extension (type declarations excluded)
+ */
+export function buildPagesFilePattern(pageExtensions: string[]): RegExp {
+  return new RegExp(`^(?!.*\\.d\\.ts$).+?\\.(${pageExtensions.map(escapeRegExp).join('|')})$`);
+}
+
+/**
+ * File extensions worth watching in an app: the last part of each page extension plus metadata assets
+ */
+export function getRouteFileExtensions(pageExtensions: string[]): string[] {
+  return [...new Set([
+    ...pageExtensions.map(extension => extension.split('.').pop()!),
+    ...Object.values(METADATA_ASSET_EXTENSIONS).flat()
+  ])];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// File type patterns for Next.js App Router with the default page extensions
+export const FILE_PATTERNS = buildFilePatterns(DEFAULT_PAGE_EXTENSIONS);
+
+// Metadata file types, served at a URL of their own
+export const METADATA_FILE_TYPES: RouteFileType[] = [
+  RouteFileType.OpenGraphImage,
+  RouteFileType.TwitterImage,
+  RouteFileType.Icon,
+  RouteFileType.AppleIcon,
+  RouteFileType.Sitemap,
+  RouteFileType.Robots,
+  RouteFileType.Manifest
+];
+
+// URL file names of generated (code-based) metadata routes; image routes keep their base name
+export const METADATA_ROUTE_NAMES: Partial<Record<RouteFileType, string>> = {
+  [RouteFileType.Sitemap]: 'sitemap.xml',
+  [RouteFileType.Robots]: 'robots.txt',
+  [RouteFileType.Manifest]: 'manifest.webmanifest'
+};
+
+// Pages Router special files (only meaningful at the root of pages/)
+export const PAGES_SPECIAL_FILES: Record<string, RouteFileType> = {
+  '_app': RouteFileType.CustomApp,
+  '_document': RouteFileType.CustomDocument,
+  '_error': RouteFileType.Error,
+  '404': RouteFileType.NotFound,
+  '500': RouteFileType.Error,
+};
+
+// Pages Router page extensions (type declarations excluded)
+export const PAGES_FILE_EXTENSION = buildPagesFilePattern(DEFAULT_PAGE_EXTENSIONS);
 
 // Route segment patterns
 export const SEGMENT_PATTERNS = {
@@ -21,7 +107,7 @@ export const SEGMENT_PATTERNS = {
   [RoutingPattern.OptionalCatchAll]: /^\[\[\.\.\.([^.\]]+)\]\]$/,
   [RoutingPattern.RouteGroup]: /^\(([^)]+)\)$/,
   [RoutingPattern.Parallel]: /^@([^/]+)$/,
-  [RoutingPattern.Intercepting]: /^(\(.+\))(.*)$/,
+  [RoutingPattern.Intercepting]: /^(\(\.\)|\(\.\.\.\)|(?:\(\.\.\))+)(.+)$/,
 } as const;
 
 // Combined patterns for complex matching
@@ -41,8 +127,14 @@ export const ROUTE_PATTERNS = {
   // Parallel route: @auth, @dashboard
   PARALLEL_ROUTE: /^@([^/]+)$/,
   
-  // Intercepting routes: (..), (...), (....)
-  INTERCEPTING_ROUTE: /^(\(.+\))(.*)$/,
+  // Intercepting routes: (.)photo, (..)photo, (..)(..)photo, (...)photo
+  INTERCEPTING_ROUTE: /^(\(\.\)|\(\.\.\.\)|(?:\(\.\.\))+)(.+)$/,
+  
+  // Private folder: _components, _lib (opted out of routing)
+  PRIVATE_FOLDER: /^_/,
+  
+  // URL-encoded underscore: %5Fsegment serves /_segment
+  ENCODED_UNDERSCORE: /^%5F/i,
   
   // App Router file types
   APP_ROUTER_FILE: /^(page|layout|loading|error|not-found|route|template|default|global-error)\.(tsx?|jsx?|ts|js)$/,
@@ -52,8 +144,8 @@ export const ROUTE_PATTERNS = {
 } as const;
 
 // Helper function to get file type from filename
-export function getFileType(filename: string): RouteFileType | null {
-  for (const [type, pattern] of Object.entries(FILE_PATTERNS)) {
+export function getFileType(filename: string, patterns: FilePatterns = FILE_PATTERNS): RouteFileType | null {
+  for (const [type, pattern] of Object.entries(patterns)) {
     if (pattern.test(filename)) {
       return type as RouteFileType;
     }
@@ -103,7 +195,12 @@ export const DEFAULT_EXCLUDE_PATTERNS = [
   '**/.next/**',
   '**/.git/**',
   '**/dist/**',
-  '**/build/**',
-  '**/*.test.*',
-  '**/*.spec.*'
-] as const;
\ No newline at end of file
+  '**/build/**'
+] as const;
+
+// Workspace sources worth reading for Server Actions and route references, and folders never worth reading
+export const SOURCE_FILE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs}';
+export const SOURCE_EXCLUDE_GLOB = '**/{node_modules,.next,.git,dist,build,out}/**';
+
+// Editor languages of those sources, for diagnostics quick fixes and href IntelliSense
+export const SOURCE_LANGUAGE_IDS = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
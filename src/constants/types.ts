@@ -7,7 +7,94 @@ export enum RouteFileType {
   Route = 'route',
   Template = 'template',
   Default = 'default',
-  GlobalError = 'global-error'
+  GlobalError = 'global-error',
+  // Pages Router special files
+  CustomApp = '_app',
+  CustomDocument = '_document',
+  // Virtual routes declared in next.config
+  Redirect = 'redirect',
+  Rewrite = 'rewrite',
+  // Project-level middleware.ts
+  Middleware = 'middleware',
+  // Metadata files served as their own routes
+  OpenGraphImage = 'opengraph-image',
+  TwitterImage = 'twitter-image',
+  Icon = 'icon',
+  AppleIcon = 'apple-icon',
+  Sitemap = 'sitemap',
+  Robots = 'robots',
+  Manifest = 'manifest'
+}
+
+export enum RouterType {
+  App = 'app',
+  Pages = 'pages'
+}
+
+// HTTP methods a route handler (route.ts) can export
+export enum HttpMethod {
+  Get = 'GET',
+  Post = 'POST',
+  Put = 'PUT',
+  Patch = 'PATCH',
+  Delete = 'DELETE',
+  Head = 'HEAD',
+  Options = 'OPTIONS'
+}
+
+export interface RouteHandlerMethod {
+  method: HttpMethod;
+  line: number;
+}
+
+// Route segment config exported from page/layout/route files
+export interface RouteSegmentConfig {
+  dynamic?: string;
+  revalidate?: number | false;
+  runtime?: string;
+  fetchCache?: string;
+  preferredRegion?: string | string[];
+}
+
+export type SegmentConfigKey = keyof RouteSegmentConfig;
+
+export interface ResolvedSegmentConfig {
+  values: RouteSegmentConfig;
+  // File each effective value is declared in (the route itself or an ancestor layout)
+  sources: Partial<Record<SegmentConfigKey, string>>;
+}
+
+// Which side a module renders on, from its 'use client' directive
+export enum ComponentType {
+  Server = 'server',
+  Client = 'client'
+}
+
+export interface ComponentClassification {
+  type: ComponentType;
+  // A 'use server' module, or inline 'use server' functions
+  hasServerActions: boolean;
+  // Client modules a server file renders through its imports (the first 'use client' file on each path)
+  clientBoundaries: string[];
+}
+
+// How `next build` rendered a route, from the build manifests
+export enum RenderMode {
+  Static = 'static',
+  SSG = 'ssg',
+  ISR = 'isr',
+  Dynamic = 'dynamic'
+}
+
+export interface RouteBuildInfo {
+  // null when the route exists in source but not in the last build
+  renderMode: RenderMode | null;
+  // ISR interval in seconds (the shortest across prerendered paths)
+  revalidate?: number;
+  // Gzipped size of the JS a page loads on first visit
+  firstLoadJsBytes?: number;
+  // URLs prerendered for a dynamic route
+  prerenderedPaths: string[];
 }
 
 export enum RoutingPattern {
@@ -39,6 +126,7 @@ export interface NextjsRouteItem {
   segments: string[];
   parentId?: string;
   children?: NextjsRouteItem[];
+  router?: RouterType;
 }
 
 export interface RouteInfo {
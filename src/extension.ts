@@ -1,24 +1,32 @@
 import * as vscode from 'vscode';
-import { NextjsRoutesProvider, PageContentProvider, NextjsSearchViewProvider } from './providers';
+import { NextjsRoutesProvider, PageContentProvider, NextjsSearchViewProvider, RouteDiagnosticsProvider, RouteHrefProvider, RouteRenameProvider, RouteScaffoldProvider, RequestRunnerProvider, RouteAnatomyProvider, ServerActionsProvider } from './providers';
 import { RouteParametersProvider } from './providers/routeParametersProvider';
-import { getWorkspaceRoot, isNextjsProject } from './utils';
+import { getWorkspaceRoots, findNextjsApps, matchUrlToRoute, parseUrl, openFile, toRoutePathname, getDefaultNextConfig, flattenRouteItems } from './utils';
+import { RouteFileType } from './constants';
 
 let routesProvider: NextjsRoutesProvider | undefined;
 let pageContentProvider: PageContentProvider | undefined;
 let searchViewProvider: NextjsSearchViewProvider | undefined;
 let routeParametersProvider: RouteParametersProvider | undefined;
+let routeDiagnosticsProvider: RouteDiagnosticsProvider | undefined;
+let routeHrefProvider: RouteHrefProvider | undefined;
+let routeRenameProvider: RouteRenameProvider | undefined;
+let routeScaffoldProvider: RouteScaffoldProvider | undefined;
+let requestRunnerProvider: RequestRunnerProvider | undefined;
+let routeAnatomyProvider: RouteAnatomyProvider | undefined;
+let serverActionsProvider: ServerActionsProvider | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
 	console.log('Next.js Radar extension is starting...');
 
-	// Check if current workspace is a Next.js project
-	const workspaceRoot = getWorkspaceRoot();
-	if (!workspaceRoot) {
+	// Check if any workspace folder (or monorepo package) is a Next.js project
+	const workspaceRoots = getWorkspaceRoots();
+	if (workspaceRoots.length === 0) {
 		console.log('No workspace folder found');
 		return;
 	}
 
-	if (!(await isNextjsProject(workspaceRoot))) {
+	if ((await findNextjsApps(workspaceRoots)).length === 0) {
 		console.log('Not a Next.js project, extension will not activate');
 		return;
 	}
@@ -29,8 +37,15 @@ export async function activate(context: vscode.ExtensionContext) {
 		// Initialize providers
 		routesProvider = new NextjsRoutesProvider(context);
 		pageContentProvider = new PageContentProvider(context);
-		routeParametersProvider = new RouteParametersProvider(context);
+		routeParametersProvider = new RouteParametersProvider(context, routesProvider);
 		searchViewProvider = new NextjsSearchViewProvider(routesProvider, routeParametersProvider);
+		routeDiagnosticsProvider = new RouteDiagnosticsProvider(routesProvider);
+		routeHrefProvider = new RouteHrefProvider(routesProvider);
+		routeRenameProvider = new RouteRenameProvider(routesProvider);
+		routeScaffoldProvider = new RouteScaffoldProvider(routesProvider);
+		requestRunnerProvider = new RequestRunnerProvider(context, routesProvider, routeParametersProvider);
+		routeAnatomyProvider = new RouteAnatomyProvider(context, routesProvider);
+		serverActionsProvider = new ServerActionsProvider(context, routesProvider);
 
 		// Register tree views
 		const routesTreeView = vscode.window.createTreeView('nextjsRadar.routes', {
@@ -43,6 +58,15 @@ export async function activate(context: vscode.ExtensionContext) {
 			showCollapseAll: true
 		});
 
+		const routeAnatomyTreeView = vscode.window.createTreeView(RouteAnatomyProvider.viewId, {
+			treeDataProvider: routeAnatomyProvider
+		});
+
+		const serverActionsTreeView = vscode.window.createTreeView(ServerActionsProvider.viewId, {
+			treeDataProvider: serverActionsProvider,
+			showCollapseAll: true
+		});
+
 		// Register webview views
 		const searchWebviewView = vscode.window.registerWebviewViewProvider(
 			NextjsSearchViewProvider.viewId,
@@ -55,18 +79,25 @@ export async function activate(context: vscode.ExtensionContext) {
 		);
 
 		// Register commands
-		registerCommands(context, routesProvider, pageContentProvider);
+		registerCommands(context, routesProvider, pageContentProvider, routeParametersProvider, requestRunnerProvider, routeAnatomyProvider, serverActionsProvider, routeRenameProvider, routeScaffoldProvider);
 
 		// Register disposables
 		context.subscriptions.push(
 			routesTreeView,
 			pageContentTreeView,
+			routeAnatomyTreeView,
+			serverActionsTreeView,
 			searchWebviewView,
 			routeParametersWebviewView,
 			routesProvider,
 			pageContentProvider,
 			searchViewProvider,
-			routeParametersProvider
+			routeParametersProvider,
+			routeDiagnosticsProvider,
+			routeHrefProvider,
+			requestRunnerProvider,
+			routeAnatomyProvider,
+			serverActionsProvider
 		);
 
 		console.log('Next.js Radar successfully activated!');
@@ -83,7 +114,13 @@ export async function activate(context: vscode.ExtensionContext) {
 function registerCommands(
 	context: vscode.ExtensionContext,
 	routesProvider: NextjsRoutesProvider,
-	pageContentProvider: PageContentProvider
+	pageContentProvider: PageContentProvider,
+	routeParametersProvider: RouteParametersProvider,
+	requestRunnerProvider: RequestRunnerProvider,
+	routeAnatomyProvider: RouteAnatomyProvider,
+	serverActionsProvider: ServerActionsProvider,
+	routeRenameProvider: RouteRenameProvider,
+	routeScaffoldProvider: RouteScaffoldProvider
 ) {
 	// Refresh routes command
 	const refreshRoutesCommand = vscode.commands.registerCommand('nextjsRadar.refreshRoutes', () => {
@@ -114,10 +151,17 @@ function registerCommands(
 	// Open route in browser command
 	const openInBrowserCommand = vscode.commands.registerCommand('nextjsRadar.openInBrowser', async (routeItem) => {
 		if (routeItem && routeItem.path) {
-			const config = routesProvider.getConfiguration();
-			// Use configurable host URL or fall back to localhost with port
-			const baseUrl = config.hostUrl || `http://localhost:${config.port}`;
-			const url = `${baseUrl}${routeItem.path}`;
+			// Routes with generateStaticParams values open one of their prebuilt paths
+			let routePath = routeItem.path;
+			const prebuilt = routeItem.staticParams?.values || [];
+			if (prebuilt.length > 0) {
+				if (!(await routeParametersProvider.pickStaticParams(routePath, prebuilt))) {
+					return;
+				}
+				routePath = routeParametersProvider.replaceParametersInPath(routePath);
+			}
+			// Use the host URL, basePath and trailingSlash of the app owning the route
+			const url = routesProvider.getRouteUrl(routePath, routeItem.filePath);
 			await vscode.env.openExternal(vscode.Uri.parse(url));
 		}
 	});
@@ -125,7 +169,7 @@ function registerCommands(
 	// Copy route path command
 	const copyPathCommand = vscode.commands.registerCommand('nextjsRadar.copyPath', async (routeItem) => {
 		if (routeItem && routeItem.path) {
-			await vscode.env.clipboard.writeText(routeItem.path);
+			await vscode.env.clipboard.writeText(routesProvider.getPublicPath(routeItem.path, routeItem.filePath));
 			vscode.window.showInformationMessage('Route path copied to clipboard');
 		}
 	});
@@ -155,10 +199,135 @@ function registerCommands(
 			placeHolder: 'http://localhost:3000/blog/my-post'
 		});
 
-		if (url) {
-			// TODO: Implement URL to route matching
-			vscode.window.showInformationMessage(`Looking for route matching: ${url}`);
+		if (!url || !url.trim()) {
+			return;
+		}
+
+		// In multi-app workspaces, the URL's origin picks the app when it matches one
+		const app = routesProvider.getAppForUrl(url.trim());
+		const routes = app ? routesProvider.getRoutesForApp(app) : routesProvider.getAllRoutes();
+		const configApp = app || routesProvider.getApps()[0];
+		const nextConfig = configApp ? routesProvider.getNextConfigForFile(configApp.projectRoot) : getDefaultNextConfig();
+		// Served URLs carry basePath and locale prefixes the route files don't
+		const pathname = toRoutePathname(parseUrl(url.trim()).pathname, nextConfig);
+		const match = matchUrlToRoute(pathname, routes);
+		if (!match) {
+			vscode.window.showWarningMessage(`No route matches ${pathname}`);
+			return;
+		}
+
+		try {
+			await openFile(match.route.filePath);
+			if (Object.keys(match.params).length > 0) {
+				routeParametersProvider.setParameters(match.params);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to open route: ${error}`);
+		}
+	});
+
+	// Send request command: from a route handler, one of its methods, or a picked API route
+	const sendRequestCommand = vscode.commands.registerCommand('nextjsRadar.sendRequest', async (target?: { filePath?: string; method?: string }) => {
+		let route = target?.filePath ? routesProvider.getRouteByFilePath(target.filePath) : undefined;
+
+		if (!route) {
+			const apiRoutes = flattenRouteItems(routesProvider.getAllRoutes()).filter(item => item.fileType === RouteFileType.Route);
+			if (apiRoutes.length === 0) {
+				vscode.window.showInformationMessage('No API routes found');
+				return;
+			}
+
+			const picked = await vscode.window.showQuickPick(
+				apiRoutes.map(item => ({
+					label: item.path,
+					description: item.methods.map(handler => handler.method).join(' '),
+					detail: vscode.workspace.asRelativePath(item.filePath),
+					route: item
+				})),
+				{ placeHolder: 'Select an API route to send a request to' }
+			);
+			if (!picked) {
+				return;
+			}
+			route = picked.route;
+		}
+
+		requestRunnerProvider.open(route, target?.method);
+	});
+
+	// Show route anatomy command: for a route item, a file path, or the active editor
+	const showRouteAnatomyCommand = vscode.commands.registerCommand('nextjsRadar.showRouteAnatomy', async (target?: { filePath?: string }) => {
+		const filePath = target?.filePath || vscode.window.activeTextEditor?.document.uri.fsPath;
+		if (!filePath || !routeAnatomyProvider.showFile(filePath)) {
+			vscode.window.showInformationMessage('Route anatomy is available for App Router pages');
+			return;
 		}
+
+		await vscode.commands.executeCommand(`${RouteAnatomyProvider.viewId}.focus`);
+	});
+
+	// Find route references command: for a route item, a file path, the active editor or a picked route
+	const findRouteReferencesCommand = vscode.commands.registerCommand('nextjsRadar.findRouteReferences', async (target?: { filePath?: string }) => {
+		const filePath = target?.filePath || vscode.window.activeTextEditor?.document.uri.fsPath;
+		let route = filePath ? routesProvider.getRouteByFilePath(filePath) : undefined;
+
+		if (!route || (route.fileType !== RouteFileType.Page && route.fileType !== RouteFileType.Route)) {
+			const routes = flattenRouteItems(routesProvider.getAllRoutes())
+				.filter(item => item.fileType === RouteFileType.Page || item.fileType === RouteFileType.Route);
+			const picked = await vscode.window.showQuickPick(
+				routes.map(item => ({
+					label: item.path,
+					description: `${item.references.length} reference${item.references.length === 1 ? '' : 's'}`,
+					detail: vscode.workspace.asRelativePath(item.filePath),
+					route: item
+				})),
+				{ placeHolder: 'Select a route to find references to' }
+			);
+			if (!picked) {
+				return;
+			}
+			route = picked.route;
+		}
+
+		const references = routesProvider.getRouteReferences(route.filePath);
+		if (references.length === 0) {
+			vscode.window.showInformationMessage(`No Link, router, redirect or revalidatePath references to ${route.path}`);
+			return;
+		}
+
+		const locations = references.map(reference => new vscode.Location(
+			vscode.Uri.file(reference.filePath),
+			new vscode.Range(reference.line, reference.character, reference.line, reference.character + reference.href.length)
+		));
+		await vscode.commands.executeCommand('editor.action.showReferences', vscode.Uri.file(route.filePath), new vscode.Position(0, 0), locations);
+	});
+
+	// Rename route segment command: for a route item, a file path or the active editor
+	const renameRouteSegmentCommand = vscode.commands.registerCommand('nextjsRadar.renameRouteSegment', async (target?: { filePath?: string }) => {
+		const filePath = target?.filePath || vscode.window.activeTextEditor?.document.uri.fsPath;
+		if (!filePath) {
+			vscode.window.showInformationMessage('Open a route file or select a route to rename one of its segments');
+			return;
+		}
+
+		await routeRenameProvider.renameSegment(filePath);
+	});
+
+	// New route command: below a route item's folder, or at the root of a picked app
+	const newRouteCommand = vscode.commands.registerCommand('nextjsRadar.newRoute', async (target?: { filePath?: string }) => {
+		await routeScaffoldProvider.newRoute(target?.filePath);
+	});
+
+	// Server Actions inventory commands
+	const refreshServerActionsCommand = vscode.commands.registerCommand('nextjsRadar.refreshServerActions', () => {
+		return serverActionsProvider.refresh();
+	});
+
+	const copyServerActionsCommand = vscode.commands.registerCommand('nextjsRadar.copyServerActions', async () => {
+		await serverActionsProvider.refresh();
+		const count = serverActionsProvider.getActions().length;
+		await vscode.env.clipboard.writeText(serverActionsProvider.toMarkdown());
+		vscode.window.showInformationMessage(`Copied ${count} Server Action${count === 1 ? '' : 's'} as a Markdown table`);
 	});
 
 	// Test configuration command
@@ -189,6 +358,13 @@ function registerCommands(
 		searchRoutesCommand,
 		clearSearchCommand,
 		openRouteFromUrlCommand,
+		sendRequestCommand,
+		showRouteAnatomyCommand,
+		findRouteReferencesCommand,
+		renameRouteSegmentCommand,
+		newRouteCommand,
+		refreshServerActionsCommand,
+		copyServerActionsCommand,
 		testConfigCommand
 	);
 }
@@ -201,4 +377,11 @@ export function deactivate() {
 	pageContentProvider = undefined;
 	searchViewProvider = undefined;
 	routeParametersProvider = undefined;
+	routeDiagnosticsProvider = undefined;
+	routeHrefProvider = undefined;
+	routeRenameProvider = undefined;
+	routeScaffoldProvider = undefined;
+	requestRunnerProvider = undefined;
+	routeAnatomyProvider = undefined;
+	serverActionsProvider = undefined;
 }
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+
+export class ColocatedFolderItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly entries: vscode.TreeItem[],
+    id: string,
+    isPrivate: boolean
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.id = id;
+    this.description = isPrivate ? 'private' : String(entries.length);
+    this.tooltip = isPrivate ? `${label}\nPrivate folder: excluded from routing` : `${label}\nFiles colocated with this route`;
+    this.iconPath = new vscode.ThemeIcon(isPrivate ? 'folder-library' : 'files');
+    this.contextValue = 'nextjs-colocated-folder';
+  }
+}
+
+export class ColocatedFileItem extends vscode.TreeItem {
+  public readonly filePath: string;
+
+  constructor(
+    label: string,
+    filePath: string,
+    id: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+
+    this.filePath = filePath;
+
+    // Set TreeItem properties
+    this.id = id;
+    this.tooltip = `Colocated file, not a route\nFile: ${filePath}`;
+    this.resourceUri = vscode.Uri.file(filePath);
+    this.iconPath = vscode.ThemeIcon.File;
+    this.contextValue = 'nextjs-colocated-file';
+
+    // Set command to open the file
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [vscode.Uri.file(filePath)]
+    };
+  }
+}
@@ -1,2 +1,7 @@
 export { RouteItem } from './routeItem';
-export { PageContentItem, PageContentSection } from './pageContentItem';
\ No newline at end of file
+export { RouteMethodItem } from './routeMethodItem';
+export { RouteLinkItem } from './routeLinkItem';
+export { ColocatedFolderItem, ColocatedFileItem } from './colocatedItem';
+export { PageContentItem, PageContentSection } from './pageContentItem';
+export { RouteAnatomyItem, RouteAnatomySectionItem } from './routeAnatomyItem';
+export { ServerActionItem, ServerActionFileItem } from './serverActionItem';
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { RouteFileType } from '../constants';
+import { RouteAnatomyEntry } from '../utils/routeAnatomyUtils';
+
+export class RouteAnatomySectionItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly entries: RouteAnatomyItem[],
+    icon: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+
+    this.id = `anatomy-section:${label}`;
+    this.description = String(entries.length);
+    this.iconPath = new vscode.ThemeIcon(icon);
+    this.contextValue = 'nextjs-route-anatomy-section';
+  }
+}
+
+export class RouteAnatomyItem extends vscode.TreeItem {
+  public readonly fileType: RouteFileType;
+  public readonly filePath: string;
+
+  constructor(
+    entry: RouteAnatomyEntry,
+    section: string,
+    order?: number
+  ) {
+    const label = entry.slot ? `@${entry.slot}` : entry.file.fileType;
+    super(order !== undefined ? `${order}. ${label}` : label, vscode.TreeItemCollapsibleState.None);
+
+    this.fileType = entry.file.fileType;
+    this.filePath = entry.file.filePath;
+
+    // Set TreeItem properties
+    this.id = `anatomy:${section}:${entry.file.filePath}`;
+    this.description = entry.file.relativePath;
+    this.tooltip = `${entry.slot ? `@${entry.slot} slot default` : this.fileType}\nSegment: /${entry.file.segments.join('/')}\nFile: ${this.filePath}`;
+    this.iconPath = this.getIcon();
+    this.resourceUri = vscode.Uri.file(this.filePath);
+    this.contextValue = 'nextjs-route-anatomy-item';
+
+    // Set command to open the file
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [vscode.Uri.file(this.filePath)]
+    };
+  }
+
+  /**
+   * Get icon based on the file's role in the render chain
+   */
+  private getIcon(): vscode.ThemeIcon {
+    switch (this.fileType) {
+      case RouteFileType.Page:
+        return new vscode.ThemeIcon('file', new vscode.ThemeColor('charts.green'));
+      case RouteFileType.Layout:
+        return new vscode.ThemeIcon('layout', new vscode.ThemeColor('charts.purple'));
+      case RouteFileType.Template:
+        return new vscode.ThemeIcon('file-code', new vscode.ThemeColor('charts.blue'));
+      case RouteFileType.Loading:
+        return new vscode.ThemeIcon('loading', new vscode.ThemeColor('charts.yellow'));
+      case RouteFileType.Error:
+        return new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+      case RouteFileType.NotFound:
+        return new vscode.ThemeIcon('question', new vscode.ThemeColor('charts.red'));
+      case RouteFileType.GlobalError:
+        return new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.red'));
+      case RouteFileType.Default:
+        return new vscode.ThemeIcon('file-text', new vscode.ThemeColor('charts.gray'));
+      default:
+        return new vscode.ThemeIcon('file');
+    }
+  }
+}
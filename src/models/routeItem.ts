@@ -1,5 +1,11 @@
 import * as vscode from 'vscode';
-import { RouteFileType, RoutingPattern, NextjsRouteItem } from '../constants';
+import { RouteFileType, RoutingPattern, RouterType, NextjsRouteItem, RouteHandlerMethod, ResolvedSegmentConfig, SegmentConfigKey, ComponentClassification, ComponentType, RenderMode, RouteBuildInfo } from '../constants';
+import { LayoutSlotMatrix } from '../utils/parallelRouteUtils';
+import { ColocatedFile } from '../utils/routeUtils';
+import { StaticParams } from '../utils/staticParamsUtils';
+import { applyParameterValues } from '../utils/parameterUtils';
+import { formatBuildSize } from '../utils/buildOutputUtils';
+import { RouteReference } from '../utils/routeReferenceUtils';
 
 export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
   public readonly id: string;
@@ -11,8 +17,53 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
   public readonly isDynamic: boolean;
   public readonly segments: string[];
   public readonly parentId?: string;
+  public readonly router: RouterType;
   public children?: RouteItem[];
   
+  // Files defining the same URL in the other router
+  public conflicts: string[] = [];
+  
+  // Route definition problems Next.js rejects at build time
+  public problems: string[] = [];
+  
+  // Redirect/rewrite target and its line in next.config (virtual routes)
+  public destination?: string;
+  public definitionLine?: number;
+  
+  // middleware.ts matcher that runs on this route, and whether has/missing conditions apply
+  public middlewareMatcher?: string;
+  public middlewareConditional = false;
+  
+  // HTTP methods exported by a route handler, shown as child nodes
+  public methods: RouteHandlerMethod[] = [];
+  
+  // Effective route segment config (dynamic, revalidate, runtime...) with inherited values
+  public segmentConfig?: ResolvedSegmentConfig;
+  
+  // Parallel slots a layout renders and what each shows per child URL
+  public slotMatrix?: LayoutSlotMatrix;
+  
+  // Intercepting page: the route it takes over on soft navigation, and the page it stands in for
+  public interceptTarget?: { marker: string; path: string; filePath?: string };
+  
+  // Intercepted page: the intercepting pages rendered instead on soft navigation
+  public interceptedBy: string[] = [];
+  
+  // Components, hooks, tests and private folders next to this route
+  public colocatedFiles: ColocatedFile[] = [];
+  
+  // Server or Client Component, Server Actions and the client modules it renders
+  public component?: ComponentClassification;
+  
+  // generateStaticParams export and the param sets it prebuilds, when statically known
+  public staticParams?: StaticParams;
+  
+  // How the last `next build` rendered this page or route handler
+  public build?: RouteBuildInfo;
+  
+  // Link hrefs, router calls, redirects and revalidatePath calls resolving to this route
+  public references: RouteReference[] = [];
+  
   // VS Code TreeItem specific properties
   public readonly isCollapsible: boolean;
 
@@ -25,7 +76,8 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     pattern: RoutingPattern,
     segments: string[],
     parentId?: string,
-    children?: RouteItem[]
+    children?: RouteItem[],
+    router: RouterType = RouterType.App
   ) {
     const collapsibleState = children && children.length > 0 
       ? vscode.TreeItemCollapsibleState.Collapsed 
@@ -41,6 +93,7 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     this.segments = segments;
     this.parentId = parentId;
     this.children = children;
+    this.router = router;
     
     // Route properties
     this.isPage = fileType === RouteFileType.Page;
@@ -48,11 +101,63 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     this.isCollapsible = collapsibleState !== vscode.TreeItemCollapsibleState.None;
 
     // Set VS Code TreeItem properties
+    this.refreshPresentation();
+    this.resourceUri = vscode.Uri.file(filePath);
+  }
+
+  /**
+   * Recompute tooltip, description, icon and context value after annotations change
+   */
+  public refreshPresentation(): void {
     this.tooltip = this.getTooltip();
     this.description = this.getDescription();
     this.iconPath = this.getIcon();
     this.contextValue = this.getContextValue();
-    this.resourceUri = vscode.Uri.file(filePath);
+  }
+
+  /**
+   * Create a copy with another label and children, keeping annotations
+   */
+  public cloneWith(label: string, children?: RouteItem[]): RouteItem {
+    const copy = new RouteItem(
+      this.id,
+      label,
+      this.path,
+      this.filePath,
+      this.fileType,
+      this.pattern,
+      this.segments,
+      this.parentId,
+      children,
+      this.router
+    );
+    copy.conflicts = [...this.conflicts];
+    copy.problems = [...this.problems];
+    copy.destination = this.destination;
+    copy.definitionLine = this.definitionLine;
+    copy.middlewareMatcher = this.middlewareMatcher;
+    copy.middlewareConditional = this.middlewareConditional;
+    copy.segmentConfig = this.segmentConfig;
+    copy.slotMatrix = this.slotMatrix;
+    copy.interceptTarget = this.interceptTarget;
+    copy.interceptedBy = [...this.interceptedBy];
+    copy.component = this.component;
+    copy.staticParams = this.staticParams;
+    copy.build = this.build;
+    copy.references = [...this.references];
+    copy.setColocatedFiles(this.colocatedFiles);
+    copy.setMethods(this.methods);
+    return copy;
+  }
+
+  /**
+   * Record a file in the other router that defines the same URL
+   */
+  public addConflict(filePath: string): void {
+    if (!this.conflicts.includes(filePath)) {
+      this.conflicts.push(filePath);
+      this.refreshPresentation();
+    }
   }
 
   /**
@@ -69,6 +174,185 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     return baseName;
   }
 
+  /**
+   * Point a virtual route (redirect/rewrite source) at its destination
+   */
+  public setDestination(destination: string, line: number): void {
+    this.destination = destination;
+    this.definitionLine = line;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Set the HTTP methods exported by this route handler
+   */
+  public setMethods(methods: RouteHandlerMethod[]): void {
+    this.methods = [...methods];
+    if (this.methods.length > 0) {
+      this.makeCollapsible();
+    }
+    this.refreshPresentation();
+  }
+
+  /**
+   * Expandable for method or link nodes even without nested routes
+   */
+  private makeCollapsible(): void {
+    if (this.collapsibleState === vscode.TreeItemCollapsibleState.None) {
+      this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+    }
+  }
+
+  /**
+   * Attach the effective route segment config
+   */
+  public setSegmentConfig(segmentConfig: ResolvedSegmentConfig): void {
+    this.segmentConfig = segmentConfig;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Short badges for the segment config values worth seeing at a glance
+   */
+  public getSegmentConfigBadges(): string[] {
+    const values = this.segmentConfig?.values;
+    if (!values) {
+      return [];
+    }
+
+    const badges: string[] = [];
+    if (values.runtime === 'edge') {
+      badges.push('⚡ edge');
+    }
+    if (values.dynamic && values.dynamic !== 'auto') {
+      badges.push(values.dynamic === 'force-static' ? '■ force-static' : `● ${values.dynamic}`);
+    }
+    if (typeof values.revalidate === 'number') {
+      badges.push(`⟳ ${values.revalidate}s`);
+    }
+    return badges;
+  }
+
+  /**
+   * Attach the parallel slot matrix of a layout
+   */
+  public setSlotMatrix(slotMatrix: LayoutSlotMatrix): void {
+    this.slotMatrix = slotMatrix;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Names of the slots that 404 somewhere for lack of a default.tsx
+   */
+  public getSlotsMissingDefault(): string[] {
+    const slots = this.slotMatrix?.slots || [];
+    return slots
+      .filter(slot => this.slotMatrix!.rows.some(row => row.cells.some(cell => cell.slot === slot.name && cell.kind === 'missing')))
+      .map(slot => slot.name);
+  }
+
+  /**
+   * Link an intercepting page to the route it intercepts
+   */
+  public setInterceptTarget(marker: string, path: string, filePath?: string): void {
+    this.interceptTarget = { marker, path, filePath };
+    this.makeCollapsible();
+    this.refreshPresentation();
+  }
+
+  /**
+   * Record an intercepting page rendered instead of this one on soft navigation
+   */
+  public addInterceptor(filePath: string): void {
+    if (!this.interceptedBy.includes(filePath)) {
+      this.interceptedBy.push(filePath);
+      this.makeCollapsible();
+      this.refreshPresentation();
+    }
+  }
+
+  /**
+   * Attach the Server/Client Component classification of the route file
+   */
+  public setComponent(component: ComponentClassification): void {
+    this.component = component;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Attach the generateStaticParams export of the route file
+   */
+  public setStaticParams(staticParams: StaticParams): void {
+    this.staticParams = staticParams;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Attach what the last build made of this route
+   */
+  public setBuildInfo(build: RouteBuildInfo): void {
+    this.build = build;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Record the hrefs across the app that resolve to this route
+   */
+  public setReferences(references: RouteReference[]): void {
+    this.references = references;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Build badge in the legend of `next build`: ○ static, ● SSG, ● ISR, λ dynamic
+   */
+  public getBuildBadge(): string | undefined {
+    switch (this.build?.renderMode) {
+      case undefined:
+        return undefined;
+      case null:
+        return '✗ not built';
+      case RenderMode.Static:
+        return '○ static';
+      case RenderMode.SSG:
+        return '● SSG';
+      case RenderMode.ISR:
+        return `● ISR ${this.build.revalidate}s`;
+      case RenderMode.Dynamic:
+        return 'λ dynamic';
+    }
+  }
+
+  /**
+   * Attach the non-route files colocated with this route
+   */
+  public setColocatedFiles(files: ColocatedFile[]): void {
+    this.colocatedFiles = [...files];
+    if (this.colocatedFiles.length > 0) {
+      this.makeCollapsible();
+    }
+    this.refreshPresentation();
+  }
+
+  /**
+   * Mark the route as running behind middleware
+   */
+  public setMiddleware(matcher: string, conditional: boolean): void {
+    this.middlewareMatcher = matcher;
+    this.middlewareConditional = conditional;
+    this.refreshPresentation();
+  }
+
+  /**
+   * Record a route definition problem affecting this file
+   */
+  public addProblem(message: string): void {
+    if (!this.problems.includes(message)) {
+      this.problems.push(message);
+      this.refreshPresentation();
+    }
+  }
+
   /**
    * Get tooltip text with detailed information
    */
@@ -78,30 +362,218 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     parts.push(`Path: ${this.path}`);
     parts.push(`Type: ${this.fileType}`);
     parts.push(`Pattern: ${this.pattern}`);
-    parts.push(`File: ${this.filePath}`);
+    if (this.destination) {
+      // Redirects and rewrites are declared in next.config, not served by a router
+      parts.push(`File: ${this.filePath}:${(this.definitionLine || 0) + 1}`);
+      parts.push(`Destination: ${this.destination}`);
+    } else {
+      parts.push(`Router: ${this.router === RouterType.Pages ? 'Pages Router' : 'App Router'}`);
+      parts.push(`File: ${this.filePath}`);
+    }
     
     if (this.isDynamic) {
       parts.push('Dynamic: Yes');
     }
     
+    // Slots don't show in the URL, so name the one this file renders in
+    const slot = [...this.segments].reverse().find(segment => segment.startsWith('@'));
+    if (slot) {
+      parts.push(`Slot: ${slot}`);
+    }
+    
     if (this.children && this.children.length > 0) {
       parts.push(`Children: ${this.children.length}`);
     }
     
+    if (this.methods.length > 0) {
+      parts.push(`Methods: ${this.methods.map(handler => handler.method).join(', ')}`);
+    }
+    
+    if (this.segmentConfig) {
+      parts.push('Segment config:');
+      for (const [key, value] of Object.entries(this.segmentConfig.values)) {
+        const source = this.segmentConfig.sources[key as SegmentConfigKey];
+        const inherited = source && source !== this.filePath ? ` (from ${vscode.workspace.asRelativePath(source)})` : '';
+        parts.push(`  ${key}: ${JSON.stringify(value)}${inherited}`);
+      }
+    }
+    
+    if (this.slotMatrix) {
+      parts.push(`Parallel slots: ${this.slotMatrix.slots.map(slot => formatSlotName(slot.name)).join(', ')}`);
+      for (const row of this.slotMatrix.rows) {
+        const cells = row.cells.map(cell => `${formatSlotName(cell.slot)} ${cell.kind === 'missing' ? '✗ 404' : cell.kind}`);
+        parts.push(`  ${row.path}: ${cells.join(', ')}`);
+      }
+    }
+    
+    if (this.interceptTarget) {
+      const target = this.interceptTarget.filePath ? vscode.workspace.asRelativePath(this.interceptTarget.filePath) : 'no page for this URL';
+      parts.push(`↪ ${this.interceptTarget.marker} Intercepts ${this.interceptTarget.path} on soft navigation; hard navigation renders ${target}`);
+    }
+    
+    for (const interceptor of this.interceptedBy) {
+      parts.push(`↩ Intercepted on soft navigation by ${vscode.workspace.asRelativePath(interceptor)}`);
+    }
+    
+    if (this.colocatedFiles.length > 0) {
+      parts.push(`Colocated files: ${this.colocatedFiles.length}`);
+    }
+    
+    if (this.component) {
+      parts.push(`Component: ${this.component.type === ComponentType.Client ? 'Client (\'use client\')' : 'Server'}`);
+      if (this.component.hasServerActions) {
+        parts.push('Server Actions: yes (\'use server\')');
+      }
+      if (this.component.clientBoundaries.length > 0) {
+        parts.push('Client boundaries:');
+        for (const boundary of this.component.clientBoundaries) {
+          parts.push(`  ${vscode.workspace.asRelativePath(boundary)}`);
+        }
+      }
+    }
+    
+    if (this.staticParams) {
+      const values = this.staticParams.values;
+      const source = this.staticParams.source ? ` from ${this.staticParams.source}` : '';
+      parts.push(values
+        ? `generateStaticParams: ${values.length} prebuilt${source}`
+        : 'generateStaticParams: values computed at build time');
+      for (const set of (values || []).slice(0, 10)) {
+        parts.push(`  ${applyParameterValues(this.path, set)}`);
+      }
+      if (values && values.length > 10) {
+        parts.push(`  …and ${values.length - 10} more`);
+      }
+    }
+    
+    if (this.build) {
+      parts.push(this.getBuildTooltip());
+      if (this.build.firstLoadJsBytes !== undefined) {
+        parts.push(`First Load JS: ${formatBuildSize(this.build.firstLoadJsBytes)}`);
+      }
+      if (this.build.prerenderedPaths.length > 0) {
+        parts.push(`Prerendered: ${this.build.prerenderedPaths.length} path${this.build.prerenderedPaths.length === 1 ? '' : 's'}`);
+      }
+    }
+    
+    if (this.references.length > 0) {
+      const kinds = new Map<string, number>();
+      for (const reference of this.references) {
+        kinds.set(reference.kind, (kinds.get(reference.kind) || 0) + 1);
+      }
+      const counts = [...kinds.entries()].map(([kind, count]) => `${count} ${kind}`).join(', ');
+      parts.push(`References: ${this.references.length} (${counts})`);
+      for (const reference of this.references.slice(0, 10)) {
+        parts.push(`  ${vscode.workspace.asRelativePath(reference.filePath)}:${reference.line + 1} ${reference.href}`);
+      }
+      if (this.references.length > 10) {
+        parts.push(`  …and ${this.references.length - 10} more`);
+      }
+    }
+    
+    if (this.middlewareMatcher) {
+      const condition = this.middlewareConditional ? ' (when its has/missing conditions hold)' : '';
+      parts.push(`🛡 Behind middleware: ${this.middlewareMatcher}${condition}`);
+    }
+    
+    for (const conflict of this.conflicts) {
+      parts.push(`⚠ Conflicts with: ${conflict}`);
+    }
+    
+    for (const problem of this.problems) {
+      parts.push(`⛔ ${problem}`);
+    }
+    
     return parts.join('\n');
   }
 
+  /**
+   * Tooltip line for the build render mode
+   */
+  private getBuildTooltip(): string {
+    switch (this.build?.renderMode) {
+      case RenderMode.Static:
+        return 'Build: ○ Static (prerendered as static content)';
+      case RenderMode.SSG:
+        return 'Build: ● SSG (prerendered as static HTML)';
+      case RenderMode.ISR:
+        return `Build: ● ISR (revalidated every ${this.build.revalidate}s)`;
+      case RenderMode.Dynamic:
+        return 'Build: λ Dynamic (rendered on demand)';
+      default:
+        return '⚠ Missing from the last build: rebuild to include it';
+    }
+  }
+
   /**
    * Get description shown next to the label
    */
   private getDescription(): string {
     const parts: string[] = [];
     
+    if (this.router === RouterType.Pages) {
+      parts.push('pages');
+    }
+    
+    if (this.conflicts.length > 0) {
+      parts.push('⚠ conflict');
+    }
+    
+    if (this.problems.length > 0) {
+      parts.push('⛔ problem');
+    }
+    
     // Show file type if not a page
     if (this.fileType !== RouteFileType.Page) {
       parts.push(this.fileType);
     }
     
+    if (this.destination) {
+      parts.push(`→ ${this.destination}`);
+    }
+    
+    if (this.methods.length > 0) {
+      parts.push(this.methods.map(handler => handler.method).join(' '));
+    }
+    
+    parts.push(...this.getSegmentConfigBadges());
+    
+    if (this.interceptTarget) {
+      parts.push(`↪ ${this.interceptTarget.path}`);
+    }
+    
+    if (this.interceptedBy.length > 0) {
+      parts.push('↩ intercepted');
+    }
+    
+    if (this.slotMatrix) {
+      const missing = this.getSlotsMissingDefault();
+      parts.push(`⫴ ${this.slotMatrix.slots.length - 1} slot${this.slotMatrix.slots.length === 2 ? '' : 's'}${missing.length > 0 ? ' ⚠' : ''}`);
+    }
+    
+    if (this.component?.type === ComponentType.Client) {
+      parts.push('◑ client');
+    } else if (this.component && this.component.clientBoundaries.length > 0) {
+      parts.push('◐ client boundary');
+    }
+    
+    if (this.component?.hasServerActions) {
+      parts.push('⇄ actions');
+    }
+    
+    const buildBadge = this.getBuildBadge();
+    if (buildBadge) {
+      parts.push(buildBadge);
+    }
+    
+    if (this.build?.firstLoadJsBytes !== undefined) {
+      parts.push(formatBuildSize(this.build.firstLoadJsBytes));
+    }
+    
+    if (this.staticParams) {
+      parts.push(this.staticParams.values ? `≡ ${this.staticParams.values.length} prebuilt` : '≡ prebuilt');
+    }
+    
     // Show pattern indicators
     if (this.pattern === RoutingPattern.Dynamic) {
       parts.push('dynamic');
@@ -124,7 +596,21 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
    * Get icon for the route item based on type and pattern
    */
   public getIcon(): vscode.ThemeIcon {
-    // Icon based on file type
+    const icon = this.getFileTypeIcon();
+    // Client Components and Server Actions keep the file type glyph in a color of their own
+    if (this.component?.type === ComponentType.Client) {
+      return new vscode.ThemeIcon(icon.id, new vscode.ThemeColor('nextjsRadar.clientComponentIcon'));
+    }
+    if (this.component?.hasServerActions) {
+      return new vscode.ThemeIcon(icon.id, new vscode.ThemeColor('nextjsRadar.serverActionsIcon'));
+    }
+    return icon;
+  }
+
+  /**
+   * Get icon based on file type
+   */
+  private getFileTypeIcon(): vscode.ThemeIcon {
     switch (this.fileType) {
       case RouteFileType.Page:
         return new vscode.ThemeIcon('file', new vscode.ThemeColor('charts.green'));
@@ -144,6 +630,27 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
         return new vscode.ThemeIcon('file-text', new vscode.ThemeColor('charts.gray'));
       case RouteFileType.GlobalError:
         return new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.red'));
+      case RouteFileType.CustomApp:
+        return new vscode.ThemeIcon('window', new vscode.ThemeColor('charts.purple'));
+      case RouteFileType.CustomDocument:
+        return new vscode.ThemeIcon('code', new vscode.ThemeColor('charts.purple'));
+      case RouteFileType.Redirect:
+        return new vscode.ThemeIcon('arrow-right', new vscode.ThemeColor('charts.blue'));
+      case RouteFileType.Rewrite:
+        return new vscode.ThemeIcon('arrow-swap', new vscode.ThemeColor('charts.blue'));
+      case RouteFileType.Middleware:
+        return new vscode.ThemeIcon('shield', new vscode.ThemeColor('charts.orange'));
+      case RouteFileType.OpenGraphImage:
+      case RouteFileType.TwitterImage:
+      case RouteFileType.Icon:
+      case RouteFileType.AppleIcon:
+        return new vscode.ThemeIcon('file-media', new vscode.ThemeColor('charts.green'));
+      case RouteFileType.Sitemap:
+        return new vscode.ThemeIcon('list-tree', new vscode.ThemeColor('charts.green'));
+      case RouteFileType.Robots:
+        return new vscode.ThemeIcon('hubot', new vscode.ThemeColor('charts.green'));
+      case RouteFileType.Manifest:
+        return new vscode.ThemeIcon('json', new vscode.ThemeColor('charts.green'));
       default:
         return new vscode.ThemeIcon('file');
     }
@@ -157,6 +664,7 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     
     values.push(this.fileType);
     values.push(this.pattern);
+    values.push(this.router);
     
     if (this.isPage) {
       values.push('page');
@@ -232,7 +740,11 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
    * Check if file has valid extension
    */
   private hasValidExtension(): boolean {
-    const validExtensions = ['.tsx', '.ts', '.jsx', '.js'];
+    const validExtensions = [
+      '.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs', '.mts',
+      // Static metadata files
+      '.ico', '.jpg', '.jpeg', '.png', '.gif', '.svg', '.xml', '.txt', '.json', '.webmanifest'
+    ];
     return validExtensions.some(ext => this.filePath.endsWith(ext));
   }
 
@@ -323,4 +835,11 @@ export class RouteItem extends vscode.TreeItem implements NextjsRouteItem {
     
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Named slots are written with their @ prefix, the implicit children slot as is
+ */
+function formatSlotName(name: string): string {
+  return name === 'children' ? name : `@${name}`;
+}
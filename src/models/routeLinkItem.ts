@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+
+export class RouteLinkItem extends vscode.TreeItem {
+  public readonly filePath: string;
+
+  constructor(
+    label: string,
+    filePath: string,
+    ownerId: string,
+    icon: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+
+    this.filePath = filePath;
+
+    // Set TreeItem properties
+    this.id = `${ownerId}->${filePath}`;
+    this.description = vscode.workspace.asRelativePath(filePath);
+    this.tooltip = `${label}\nFile: ${filePath}`;
+    this.iconPath = new vscode.ThemeIcon(icon);
+    this.contextValue = 'nextjs-route-link';
+
+    // Set command to open the linked route
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [vscode.Uri.file(filePath)]
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import { RouteHandlerMethod } from '../constants';
+
+export class RouteMethodItem extends vscode.TreeItem {
+  public readonly method: RouteHandlerMethod['method'];
+  public readonly line: number;
+  public readonly filePath: string;
+
+  constructor(
+    handler: RouteHandlerMethod,
+    filePath: string
+  ) {
+    super(handler.method, vscode.TreeItemCollapsibleState.None);
+
+    this.method = handler.method;
+    this.line = handler.line;
+    this.filePath = filePath;
+
+    // Set TreeItem properties
+    this.id = `${filePath}#${handler.method}`;
+    this.tooltip = `${this.method} handler\nLine: ${this.line + 1}\nFile: ${this.filePath}`;
+    this.description = `Line ${this.line + 1}`;
+    this.iconPath = new vscode.ThemeIcon('symbol-method');
+    this.contextValue = 'nextjs-route-method';
+
+    // Set command to jump to the handler
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [
+        vscode.Uri.file(filePath),
+        {
+          selection: new vscode.Range(
+            new vscode.Position(this.line, 0),
+            new vscode.Position(this.line, 0)
+          )
+        }
+      ]
+    };
+  }
+}
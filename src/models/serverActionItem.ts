@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { ServerAction } from '../utils/serverActionUtils';
+
+export class ServerActionFileItem extends vscode.TreeItem {
+  constructor(
+    public readonly filePath: string,
+    public readonly actions: ServerActionItem[]
+  ) {
+    super(vscode.workspace.asRelativePath(filePath), vscode.TreeItemCollapsibleState.Expanded);
+
+    this.id = `server-actions:${filePath}`;
+    this.description = `${actions.length} action${actions.length === 1 ? '' : 's'}`;
+    this.tooltip = `File: ${filePath}`;
+    this.resourceUri = vscode.Uri.file(filePath);
+    this.iconPath = vscode.ThemeIcon.File;
+    this.contextValue = 'nextjs-server-action-file';
+  }
+}
+
+export class ServerActionItem extends vscode.TreeItem {
+  public readonly action: ServerAction;
+
+  constructor(action: ServerAction) {
+    super(
+      action.name,
+      action.routes.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+
+    this.action = action;
+
+    // Set TreeItem properties
+    this.id = `server-action:${action.filePath}:${action.line}:${action.name}`;
+    this.description = [
+      `line ${action.line + 1}`,
+      action.inline ? 'inline' : undefined,
+      action.routes.length > 0 ? `${action.routes.length} route${action.routes.length === 1 ? '' : 's'}` : 'unused'
+    ].filter(Boolean).join(' · ');
+    this.tooltip = this.getTooltip();
+    this.iconPath = new vscode.ThemeIcon('server-process', new vscode.ThemeColor('nextjsRadar.serverActionsIcon'));
+    this.contextValue = 'nextjs-server-action';
+
+    // Set command to jump to the declaration
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [
+        vscode.Uri.file(action.filePath),
+        {
+          selection: new vscode.Range(
+            new vscode.Position(action.line, 0),
+            new vscode.Position(action.line, 0)
+          )
+        }
+      ]
+    };
+  }
+
+  private getTooltip(): string {
+    const parts = [
+      `Server Action: ${this.action.name}`,
+      `Declared with: ${this.action.inline ? 'inline \'use server\'' : '\'use server\' module'}`,
+      `File: ${this.action.filePath}:${this.action.line + 1}`,
+      'Callable as a public POST endpoint: validate input and check authorization'
+    ];
+    if (this.action.routes.length > 0) {
+      parts.push('Routes:');
+      parts.push(...this.action.routes.map(route => `  ${route.routePath} (${route.fileType})`));
+    }
+    return parts.join('\n');
+  }
+}
@@ -1,3 +1,10 @@
 export { NextjsRoutesProvider, ViewType, SortingType, NextjsRadarConfig } from './routesProvider';
 export { PageContentProvider } from './pageContentProvider';
-export { NextjsSearchViewProvider } from './searchViewProvider';
\ No newline at end of file
+export { NextjsSearchViewProvider } from './searchViewProvider';
+export { RouteDiagnosticsProvider } from './routeDiagnosticsProvider';
+export { RouteHrefProvider } from './routeHrefProvider';
+export { RouteRenameProvider } from './routeRenameProvider';
+export { RouteScaffoldProvider } from './routeScaffoldProvider';
+export { RequestRunnerProvider, SavedRouteRequest } from './requestRunnerProvider';
+export { RouteAnatomyProvider } from './routeAnatomyProvider';
+export { ServerActionsProvider } from './serverActionsProvider';
@@ -0,0 +1,585 @@
+import * as vscode from 'vscode';
+import { NextjsRoutesProvider } from './routesProvider';
+import { RouteParametersProvider } from './routeParametersProvider';
+import { RouteItem } from '../models';
+import { HttpMethod } from '../constants';
+import { KeyValuePair, sendHttpRequest, buildRequestUrl, formatResponseBody } from '../utils';
+import { replaceRouteParameters, getMissingParameters, extractRouteParameters } from '../utils/parameterUtils';
+
+export interface SavedRouteRequest {
+  id: string;
+  name: string;
+  method: string;
+  params: KeyValuePair[];
+  query: KeyValuePair[];
+  headers: KeyValuePair[];
+  body: string;
+  savedAt: number;
+}
+
+interface RequestDraft {
+  method: string;
+  params: KeyValuePair[];
+  query: KeyValuePair[];
+  headers: KeyValuePair[];
+  body: string;
+}
+
+export class RequestRunnerProvider implements vscode.Disposable {
+  public static readonly viewType = 'nextjsRadar.requestRunner';
+  private static readonly storageKey = 'nextjsRadar.savedRequests';
+  private panel?: vscode.WebviewPanel;
+  private route?: RouteItem;
+  private initialMethod?: string;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private routesProvider: NextjsRoutesProvider,
+    private routeParametersProvider: RouteParametersProvider
+  ) {}
+
+  /**
+   * Open the request runner for an API route, optionally preselecting a method
+   */
+  public open(route: RouteItem, method?: string): void {
+    this.route = route;
+    this.initialMethod = method;
+
+    if (this.panel) {
+      this.panel.title = this.getTitle(route);
+      this.panel.reveal();
+      this.postState(true);
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      RequestRunnerProvider.viewType,
+      this.getTitle(route),
+      vscode.ViewColumn.Beside,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.webview.onDidReceiveMessage(msg => {
+      switch (msg.type) {
+        case 'ready':
+          this.postState(true);
+          break;
+        case 'send':
+          this.send(msg.request);
+          break;
+        case 'save':
+          this.saveRequest(msg.name, msg.request);
+          break;
+        case 'delete-saved':
+          this.deleteSavedRequest(msg.id);
+          break;
+      }
+    }, undefined, this.disposables);
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    }, undefined, this.disposables);
+  }
+
+  private getTitle(route: RouteItem): string {
+    return `Request: ${route.path}`;
+  }
+
+  /**
+   * Send route details, parameter defaults and saved requests to the webview.
+   * The method selection is only reset when a route or method was just opened.
+   */
+  private postState(selectMethod: boolean = false): void {
+    if (!this.panel || !this.route) {
+      return;
+    }
+
+    const route = this.route;
+    const methods = route.methods.length > 0
+      ? route.methods.map(handler => handler.method as string)
+      : Object.values(HttpMethod) as string[];
+    // Dynamic segments start with the values from the Route Parameters view
+    const knownValues = this.routeParametersProvider.getParameters();
+    const params = extractRouteParameters(route.path).map(key => ({
+      key,
+      value: knownValues.find(param => param.key === key)?.value || ''
+    }));
+
+    this.panel.webview.postMessage({
+      type: 'state',
+      route: { path: route.path, filePath: route.filePath },
+      urlTemplate: this.routesProvider.getRouteUrl(route.path, route.filePath),
+      methods,
+      method: this.initialMethod && methods.includes(this.initialMethod) ? this.initialMethod : methods[0],
+      selectMethod,
+      params,
+      saved: this.getSavedRequests(route)
+    });
+  }
+
+  private async send(draft: RequestDraft): Promise<void> {
+    if (!this.panel || !this.route) {
+      return;
+    }
+
+    const params = draft.params.map((param, index) => ({ id: String(index), key: param.key, value: param.value }));
+    const missing = getMissingParameters(this.route.path, params);
+    if (missing.length > 0) {
+      this.panel.webview.postMessage({ type: 'error', message: `Missing parameters: ${missing.join(', ')}` });
+      return;
+    }
+
+    const routePath = replaceRouteParameters(this.route.path, params);
+    const url = this.routesProvider.getRouteUrl(routePath, this.route.filePath);
+
+    try {
+      const response = await sendHttpRequest({
+        method: draft.method,
+        url,
+        headers: draft.headers,
+        query: draft.query,
+        body: draft.body
+      });
+      this.panel?.webview.postMessage({
+        type: 'response',
+        url: buildRequestUrl(url, draft.query),
+        response: { ...response, body: formatResponseBody(response.body, response.headers['content-type']) }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.panel?.webview.postMessage({
+        type: 'error',
+        message: `${message}. Is the dev server running at ${this.routesProvider.getHostUrlForFile(this.route.filePath)}?`
+      });
+    }
+  }
+
+  /**
+   * Saved requests are keyed by the route file's workspace-relative path
+   */
+  private getStorageKey(route: RouteItem): string {
+    return vscode.workspace.asRelativePath(route.filePath);
+  }
+
+  private getAllSavedRequests(): Record<string, SavedRouteRequest[]> {
+    return this.context.workspaceState.get<Record<string, SavedRouteRequest[]>>(RequestRunnerProvider.storageKey, {});
+  }
+
+  public getSavedRequests(route: RouteItem): SavedRouteRequest[] {
+    return this.getAllSavedRequests()[this.getStorageKey(route)] || [];
+  }
+
+  private async saveRequest(name: string, draft: RequestDraft): Promise<void> {
+    if (!this.route) {
+      return;
+    }
+
+    const key = this.getStorageKey(this.route);
+    const all = this.getAllSavedRequests();
+    const requestName = name.trim() || `${draft.method} ${this.route.path}`;
+    // Saving under an existing name replaces that request
+    const saved = (all[key] || []).filter(request => request.name !== requestName);
+    saved.push({
+      id: Date.now().toString(),
+      name: requestName,
+      method: draft.method,
+      params: draft.params,
+      query: draft.query,
+      headers: draft.headers,
+      body: draft.body,
+      savedAt: Date.now()
+    });
+
+    await this.context.workspaceState.update(RequestRunnerProvider.storageKey, { ...all, [key]: saved });
+    this.postState();
+  }
+
+  private async deleteSavedRequest(id: string): Promise<void> {
+    if (!this.route) {
+      return;
+    }
+
+    const key = this.getStorageKey(this.route);
+    const all = this.getAllSavedRequests();
+    const saved = (all[key] || []).filter(request => request.id !== id);
+    await this.context.workspaceState.update(RequestRunnerProvider.storageKey, { ...all, [key]: saved });
+    this.postState();
+  }
+
+  private getHtml(): string {
+    const nonce = Date.now().toString();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+body {
+  padding: 12px;
+  margin: 0;
+  font-family: var(--vscode-font-family);
+  color: var(--vscode-foreground);
+  font-size: 13px;
+}
+
+.request-line {
+  display: flex;
+  gap: 6px;
+  margin-bottom: 12px;
+}
+
+select, input, textarea {
+  background: var(--vscode-input-background);
+  color: var(--vscode-input-foreground);
+  border: 1px solid var(--vscode-input-border, transparent);
+  border-radius: 2px;
+  padding: 4px 6px;
+  font-size: 12px;
+}
+
+select:focus, input:focus, textarea:focus {
+  outline: 1px solid var(--vscode-focusBorder);
+}
+
+.url-preview {
+  flex: 1;
+  padding: 4px 6px;
+  font-family: var(--vscode-editor-font-family);
+  background: var(--vscode-editor-background);
+  border-radius: 2px;
+  overflow-x: auto;
+  white-space: nowrap;
+}
+
+button {
+  background: var(--vscode-button-background);
+  color: var(--vscode-button-foreground);
+  border: none;
+  border-radius: 2px;
+  padding: 4px 12px;
+  cursor: pointer;
+}
+
+button:hover {
+  background: var(--vscode-button-hoverBackground);
+}
+
+button.secondary {
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+}
+
+.section {
+  margin-bottom: 12px;
+}
+
+.section-title {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: var(--vscode-descriptionForeground);
+  margin-bottom: 4px;
+}
+
+.pair-row {
+  display: flex;
+  gap: 4px;
+  margin-bottom: 4px;
+}
+
+.pair-row input[type="text"] {
+  flex: 1;
+}
+
+textarea {
+  width: 100%;
+  box-sizing: border-box;
+  min-height: 100px;
+  font-family: var(--vscode-editor-font-family);
+}
+
+.saved-item {
+  display: flex;
+  justify-content: space-between;
+  padding: 2px 4px;
+  cursor: pointer;
+  border-radius: 2px;
+}
+
+.saved-item:hover {
+  background: var(--vscode-list-hoverBackground);
+}
+
+.empty {
+  color: var(--vscode-descriptionForeground);
+  font-style: italic;
+  font-size: 12px;
+}
+
+.status {
+  font-weight: bold;
+  margin-right: 12px;
+}
+
+.status.ok { color: var(--vscode-charts-green); }
+.status.redirect { color: var(--vscode-charts-blue); }
+.status.fail { color: var(--vscode-errorForeground); }
+
+.response-meta {
+  color: var(--vscode-descriptionForeground);
+  margin-bottom: 8px;
+}
+
+.response-body {
+  font-family: var(--vscode-editor-font-family);
+  background: var(--vscode-editor-background);
+  padding: 8px;
+  border-radius: 2px;
+  white-space: pre-wrap;
+  word-break: break-all;
+  max-height: 480px;
+  overflow: auto;
+}
+
+.error {
+  color: var(--vscode-errorForeground);
+}
+
+table {
+  border-collapse: collapse;
+  font-size: 12px;
+  margin-bottom: 8px;
+}
+
+td {
+  padding: 2px 8px 2px 0;
+  vertical-align: top;
+}
+</style>
+</head>
+<body>
+  <div class="request-line">
+    <select id="method"></select>
+    <div class="url-preview" id="url-preview"></div>
+    <button id="send">Send</button>
+  </div>
+
+  <div class="section" id="params-section">
+    <div class="section-title">Route Parameters</div>
+    <div id="params"></div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Query <button class="secondary" data-add="query">+</button></div>
+    <div id="query"></div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Headers <button class="secondary" data-add="headers">+</button></div>
+    <div id="headers"></div>
+  </div>
+
+  <div class="section" id="body-section">
+    <div class="section-title">Body (JSON)</div>
+    <textarea id="body" placeholder='{ "name": "value" }'></textarea>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Saved Requests</div>
+    <div class="pair-row">
+      <input type="text" id="save-name" placeholder="Request name" />
+      <button class="secondary" id="save">Save</button>
+    </div>
+    <div id="saved"></div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Response</div>
+    <div id="response"><div class="empty">Send a request to see the response</div></div>
+  </div>
+
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+let state = { urlTemplate: '', methods: [], params: [], saved: [] };
+const draft = { params: [], query: [], headers: [] };
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderPairs(listName, fixedKeys) {
+  const container = document.getElementById(listName);
+  const pairs = draft[listName];
+  if (pairs.length === 0) {
+    container.innerHTML = '<div class="empty">None</div>';
+    return;
+  }
+  container.innerHTML = pairs.map((pair, index) => \`
+    <div class="pair-row">
+      \${fixedKeys ? '' : \`<input type="checkbox" data-list="\${listName}" data-index="\${index}" data-field="enabled" \${pair.enabled === false ? '' : 'checked'} />\`}
+      <input type="text" data-list="\${listName}" data-index="\${index}" data-field="key" value="\${escapeHtml(pair.key)}" placeholder="key" \${fixedKeys ? 'readonly' : ''} />
+      <input type="text" data-list="\${listName}" data-index="\${index}" data-field="value" value="\${escapeHtml(pair.value)}" placeholder="value" />
+      \${fixedKeys ? '' : \`<button class="secondary" data-remove="\${listName}" data-index="\${index}">×</button>\`}
+    </div>
+  \`).join('');
+}
+
+function renderSaved() {
+  const container = document.getElementById('saved');
+  if (state.saved.length === 0) {
+    container.innerHTML = '<div class="empty">No saved requests for this route</div>';
+    return;
+  }
+  container.innerHTML = state.saved.map(request => \`
+    <div class="saved-item" data-load="\${request.id}">
+      <span>\${escapeHtml(request.method)} · \${escapeHtml(request.name)}</span>
+      <button class="secondary" data-delete="\${request.id}" title="Delete">×</button>
+    </div>
+  \`).join('');
+}
+
+function updatePreview() {
+  let url = state.urlTemplate;
+  for (const param of draft.params) {
+    if (param.value) {
+      url = url.replace(new RegExp('[:*]' + param.key + '(?![\\\\w-])'), param.value);
+    }
+  }
+  document.getElementById('url-preview').textContent = url;
+
+  const method = document.getElementById('method').value;
+  document.getElementById('body-section').style.display = method === 'GET' || method === 'HEAD' ? 'none' : '';
+}
+
+function renderAll() {
+  renderPairs('params', true);
+  renderPairs('query', false);
+  renderPairs('headers', false);
+  document.getElementById('params-section').style.display = draft.params.length > 0 ? '' : 'none';
+  renderSaved();
+  updatePreview();
+}
+
+function getRequest() {
+  return {
+    method: document.getElementById('method').value,
+    params: draft.params,
+    query: draft.query,
+    headers: draft.headers,
+    body: document.getElementById('body').value
+  };
+}
+
+function renderResponse(url, response) {
+  const statusClass = response.status < 300 ? 'ok' : response.status < 400 ? 'redirect' : 'fail';
+  const headerRows = Object.entries(response.headers)
+    .map(([key, value]) => \`<tr><td>\${escapeHtml(key)}</td><td>\${escapeHtml(value)}</td></tr>\`)
+    .join('');
+  document.getElementById('response').innerHTML = \`
+    <div class="response-meta">
+      <span class="status \${statusClass}">\${response.status} \${escapeHtml(response.statusText)}</span>
+      <span>\${response.durationMs} ms · \${response.size} B · \${escapeHtml(url)}</span>
+    </div>
+    <details><summary>Headers</summary><table>\${headerRows}</table></details>
+    <div class="response-body">\${escapeHtml(response.body) || '<span class="empty">Empty body</span>'}</div>
+  \`;
+}
+
+document.getElementById('method').addEventListener('change', updatePreview);
+
+document.getElementById('send').addEventListener('click', () => {
+  document.getElementById('response').innerHTML = '<div class="empty">Sending...</div>';
+  vscode.postMessage({ type: 'send', request: getRequest() });
+});
+
+document.getElementById('save').addEventListener('click', () => {
+  vscode.postMessage({ type: 'save', name: document.getElementById('save-name').value, request: getRequest() });
+});
+
+document.addEventListener('input', (e) => {
+  const input = e.target;
+  if (!input.dataset || !input.dataset.list) {
+    return;
+  }
+  const pair = draft[input.dataset.list][Number(input.dataset.index)];
+  if (input.dataset.field === 'enabled') {
+    pair.enabled = input.checked;
+  } else {
+    pair[input.dataset.field] = input.value;
+  }
+  updatePreview();
+});
+
+document.addEventListener('click', (e) => {
+  const target = e.target;
+  if (target.dataset.add) {
+    draft[target.dataset.add].push({ key: '', value: '', enabled: true });
+    renderAll();
+  } else if (target.dataset.remove) {
+    draft[target.dataset.remove].splice(Number(target.dataset.index), 1);
+    renderAll();
+  } else if (target.dataset.delete) {
+    e.stopPropagation();
+    vscode.postMessage({ type: 'delete-saved', id: target.dataset.delete });
+  } else if (target.closest('[data-load]')) {
+    const request = state.saved.find(saved => saved.id === target.closest('[data-load]').dataset.load);
+    if (request) {
+      // Route parameters keep their current keys, values come from the saved request
+      draft.params = draft.params.map(param => ({
+        ...param,
+        value: (request.params.find(saved => saved.key === param.key) || param).value
+      }));
+      draft.query = request.query.map(pair => ({ ...pair }));
+      draft.headers = request.headers.map(pair => ({ ...pair }));
+      document.getElementById('body').value = request.body;
+      document.getElementById('method').value = request.method;
+      document.getElementById('save-name').value = request.name;
+      renderAll();
+    }
+  }
+});
+
+window.addEventListener('message', event => {
+  const message = event.data;
+  if (message.type === 'state') {
+    const routeChanged = state.route === undefined || state.route.filePath !== message.route.filePath;
+    state = message;
+    const select = document.getElementById('method');
+    const selected = select.value;
+    select.innerHTML = message.methods.map(method => \`<option value="\${method}">\${method}</option>\`).join('');
+    select.value = message.selectMethod || routeChanged || !message.methods.includes(selected) ? message.method : selected;
+    if (routeChanged) {
+      draft.params = message.params.map(param => ({ ...param }));
+      draft.query = [];
+      draft.headers = [];
+      document.getElementById('body').value = '';
+    }
+    renderAll();
+  } else if (message.type === 'response') {
+    renderResponse(message.url, message.response);
+  } else if (message.type === 'error') {
+    document.getElementById('response').innerHTML = \`<div class="error">\${escapeHtml(message.message)}</div>\`;
+  }
+});
+
+vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+  }
+
+  dispose() {
+    this.panel?.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
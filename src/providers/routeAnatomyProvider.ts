@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { RouteAnatomyItem, RouteAnatomySectionItem } from '../models';
+import { AppRouterFile, RouteAnatomy, canResolveRouteAnatomy, resolveRouteAnatomy } from '../utils';
+import { NextjsRoutesProvider } from './routesProvider';
+
+export class RouteAnatomyProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  public static readonly viewId = 'nextjsRadar.routeAnatomy';
+
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private currentFilePath: string | null = null;
+  private anatomy: RouteAnatomy | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private routesProvider: NextjsRoutesProvider
+  ) {
+    // Follow the active editor when it shows a page
+    vscode.window.onDidChangeActiveTextEditor(this.onActiveEditorChanged, this, context.subscriptions);
+
+    // Re-resolve when routes are rescanned
+    this.disposables.push(this.routesProvider.onDidChangeTreeData(() => this.resolve()));
+
+    if (vscode.window.activeTextEditor) {
+      this.onActiveEditorChanged(vscode.window.activeTextEditor);
+    }
+  }
+
+  /**
+   * TreeDataProvider implementation: getTreeItem
+   */
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * TreeDataProvider implementation: getChildren
+   */
+  getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+    if (element instanceof RouteAnatomySectionItem) {
+      return Promise.resolve(element.entries);
+    }
+    if (element || !this.anatomy) {
+      return Promise.resolve([]);
+    }
+
+    const { chain, boundaries, slotDefaults } = this.anatomy;
+    const sections = [
+      new RouteAnatomySectionItem(
+        'Render chain',
+        chain.map((entry, index) => new RouteAnatomyItem(entry, 'chain', index + 1)),
+        'layers'
+      ),
+      new RouteAnatomySectionItem(
+        'Boundaries',
+        boundaries.map(entry => new RouteAnatomyItem(entry, 'boundaries')),
+        'shield'
+      )
+    ];
+    if (slotDefaults.length > 0) {
+      sections.push(new RouteAnatomySectionItem(
+        'Parallel slots',
+        slotDefaults.map(entry => new RouteAnatomyItem(entry, 'slots')),
+        'split-horizontal'
+      ));
+    }
+
+    return Promise.resolve(sections);
+  }
+
+  /**
+   * Show the anatomy of a page file
+   */
+  public showFile(filePath: string): boolean {
+    if (!this.findTarget(filePath)) {
+      return false;
+    }
+
+    this.currentFilePath = filePath;
+    this.resolve();
+    return true;
+  }
+
+  /**
+   * Get the page whose anatomy is shown
+   */
+  public getCurrentFile(): string | null {
+    return this.currentFilePath;
+  }
+
+  /**
+   * Handle active editor change; non-page files keep the last anatomy on screen
+   */
+  private onActiveEditorChanged(editor?: vscode.TextEditor): void {
+    if (editor) {
+      this.showFile(editor.document.uri.fsPath);
+    }
+  }
+
+  /**
+   * Find the scanned App Router page (or slot default) for a file
+   */
+  private findTarget(filePath: string): AppRouterFile | undefined {
+    return this.routesProvider.getAppRouterFilesForFile(filePath)
+      .find(file => file.filePath === filePath && canResolveRouteAnatomy(file));
+  }
+
+  /**
+   * Resolve the render chain of the current file against the latest scan
+   */
+  private resolve(): void {
+    // The active page may have been opened before the first scan finished
+    const activeFilePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    if (!this.currentFilePath && activeFilePath && this.findTarget(activeFilePath)) {
+      this.currentFilePath = activeFilePath;
+    }
+
+    const target = this.currentFilePath ? this.findTarget(this.currentFilePath) : undefined;
+    this.anatomy = target
+      ? resolveRouteAnatomy(target, this.routesProvider.getAppRouterFilesForFile(target.filePath))
+      : null;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+}
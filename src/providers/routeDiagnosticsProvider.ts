@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { NextjsRoutesProvider } from './routesProvider';
+import { SOURCE_LANGUAGE_IDS } from '../constants';
+import { RouteProblem, RouteProblemKind, RouteReference, flattenRouteItems, suggestHrefs } from '../utils';
+
+// Diagnostic code of internal hrefs no route serves
+const DEAD_LINK_CODE = 'dead-link';
+
+export class RouteDiagnosticsProvider implements vscode.Disposable, vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private diagnostics: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private routesProvider: NextjsRoutesProvider) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('nextjsRadar');
+
+    // Republish whenever routes are rescanned
+    this.routesProvider.onDidChangeTreeData(() => this.update(), undefined, this.disposables);
+    this.update();
+
+    // Dead links get a quick fix pointing them at the closest route
+    this.disposables.push(vscode.languages.registerCodeActionsProvider(
+      SOURCE_LANGUAGE_IDS.map(language => ({ scheme: 'file', language })),
+      this,
+      { providedCodeActionKinds: RouteDiagnosticsProvider.providedCodeActionKinds }
+    ));
+  }
+
+  /**
+   * Publish route problems as diagnostics on every offending file
+   */
+  public update(): void {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const problem of this.routesProvider.getRouteProblems()) {
+      for (const filePath of problem.filePaths) {
+        const diagnostic = this.createDiagnostic(problem, filePath);
+        byFile.set(filePath, [...(byFile.get(filePath) || []), diagnostic]);
+      }
+    }
+
+    for (const reference of this.routesProvider.getDeadLinks()) {
+      const diagnostic = this.createDeadLinkDiagnostic(reference);
+      byFile.set(reference.filePath, [...(byFile.get(reference.filePath) || []), diagnostic]);
+    }
+
+    this.diagnostics.clear();
+    for (const [filePath, fileDiagnostics] of byFile) {
+      this.diagnostics.set(vscode.Uri.file(filePath), fileDiagnostics);
+    }
+  }
+
+  /**
+   * Create a file-level diagnostic pointing at the other files involved
+   */
+  private createDiagnostic(problem: RouteProblem, filePath: string): vscode.Diagnostic {
+    const range = new vscode.Range(0, 0, 0, 0);
+    // A missing slot default only breaks hard navigation, the build still succeeds
+    const severity = problem.kind === RouteProblemKind.MissingSlotDefault
+      ? vscode.DiagnosticSeverity.Warning
+      : vscode.DiagnosticSeverity.Error;
+    const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+    diagnostic.source = 'Next.js Radar';
+    diagnostic.code = problem.kind;
+    diagnostic.relatedInformation = problem.filePaths
+      .filter(other => other !== filePath)
+      .map(other => new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(vscode.Uri.file(other), range),
+        `Also resolves to ${problem.path}`
+      ));
+    return diagnostic;
+  }
+
+  /**
+   * Warn on an href literal that matches no page, route handler, redirect, rewrite or public file
+   */
+  private createDeadLinkDiagnostic(reference: RouteReference): vscode.Diagnostic {
+    const range = new vscode.Range(reference.line, reference.character, reference.line, reference.character + reference.href.length);
+    const diagnostic = new vscode.Diagnostic(range, `No route matches ${reference.href}`, vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = 'Next.js Radar';
+    diagnostic.code = DEAD_LINK_CODE;
+    return diagnostic;
+  }
+
+  /**
+   * CodeActionProvider implementation: replace a dead href with the closest existing routes
+   */
+  provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+    const app = this.routesProvider.getAppForFile(document.uri.fsPath);
+    if (!app) {
+      return [];
+    }
+    const routes = flattenRouteItems(this.routesProvider.getRoutesForApp(app));
+
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'Next.js Radar' || diagnostic.code !== DEAD_LINK_CODE) {
+        continue;
+      }
+      const suggestions = suggestHrefs(document.getText(diagnostic.range), routes);
+      suggestions.forEach((href, index) => {
+        const action = new vscode.CodeAction(`Change to ${href}`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, href);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        actions.push(action);
+      });
+    }
+    return actions;
+  }
+
+  dispose() {
+    this.diagnostics.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { NextjsRoutesProvider } from './routesProvider';
+import { RouteItem } from '../models';
+import { ROUTE_PATTERNS, RouteFileType, RouterType, SOURCE_LANGUAGE_IDS } from '../constants';
+import {
+  HrefLiteral,
+  canResolveRouteAnatomy,
+  findHrefAt,
+  flattenRouteItems,
+  getRoutableSegments,
+  matchHref,
+  matchRoutes,
+  resolveRouteAnatomy,
+  toHrefPathname
+} from '../utils';
+
+/**
+ * Route-aware IntelliSense inside Link hrefs, router.push/replace, redirect and
+ * revalidatePath strings: route path completions, hover and go to definition
+ */
+export class RouteHrefProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.DefinitionProvider, vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private routesProvider: NextjsRoutesProvider) {
+    const selector = SOURCE_LANGUAGE_IDS.map(language => ({ scheme: 'file', language }));
+    this.disposables.push(
+      vscode.languages.registerCompletionItemProvider(selector, this, '/', '"', '\'', '`'),
+      vscode.languages.registerHoverProvider(selector, this),
+      vscode.languages.registerDefinitionProvider(selector, this)
+    );
+  }
+
+  /**
+   * CompletionItemProvider implementation: every page and route handler path, dynamic segments as placeholders
+   */
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    const target = this.findHref(document, position);
+    if (!target || (target.literal.href !== '' && !target.literal.href.startsWith('/'))) {
+      return undefined;
+    }
+
+    const items = new Map<string, vscode.CompletionItem>();
+    for (const route of target.routes) {
+      if (route.fileType !== RouteFileType.Page && route.fileType !== RouteFileType.Route) {
+        continue;
+      }
+      const segments = getRoutableSegments(route.segments);
+      const label = `/${segments.join('/')}`;
+      if (items.has(label)) {
+        continue;
+      }
+
+      const item = new vscode.CompletionItem(label, route.fileType === RouteFileType.Route ? vscode.CompletionItemKind.Function : vscode.CompletionItemKind.File);
+      item.detail = vscode.workspace.asRelativePath(route.filePath);
+      // revalidatePath takes the route pattern itself, other calls a concrete path
+      item.insertText = target.literal.kind === 'revalidatePath' ? label : this.buildSnippet(segments);
+      item.range = target.range;
+      item.filterText = label;
+      // Pages before route handlers
+      item.sortText = `${route.fileType === RouteFileType.Page ? 0 : 1}${label}`;
+      items.set(label, item);
+    }
+    return [...items.values()];
+  }
+
+  /**
+   * HoverProvider implementation: the route an href renders, its files and layout chain
+   */
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const target = this.findHref(document, position);
+    const matched = target ? matchHref(target.literal.href, target.routes) : [];
+    if (!target || matched.length === 0) {
+      return undefined;
+    }
+
+    const [route] = matched;
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**/${getRoutableSegments(route.segments).join('/')}** · ${route.fileType === RouteFileType.Route ? 'Route handler' : 'Page'} (${route.router === RouterType.Pages ? 'Pages Router' : 'App Router'})\n\n`);
+
+    // Concrete hrefs name their parameter values
+    const params = target.literal.dynamic ? {} : matchRoutes(toHrefPathname(target.literal.href), matched)[0]?.params || {};
+    for (const [name, value] of Object.entries(params)) {
+      markdown.appendMarkdown(`- \`${name}\` = \`${Array.isArray(value) ? value.join('/') : value}\`\n`);
+    }
+    if (Object.keys(params).length > 0) {
+      markdown.appendMarkdown('\n');
+    }
+
+    markdown.appendMarkdown('Files:\n');
+    for (const file of matched) {
+      markdown.appendMarkdown(`- [\`${vscode.workspace.asRelativePath(file.filePath)}\`](${vscode.Uri.file(file.filePath).toString()})\n`);
+    }
+
+    // Layouts and templates wrapping the page, from the root down
+    const appFiles = this.routesProvider.getAppRouterFilesForFile(route.filePath);
+    const appFile = appFiles.find(file => file.filePath === route.filePath);
+    if (appFile && canResolveRouteAnatomy(appFile)) {
+      const anatomy = resolveRouteAnatomy(appFile, appFiles);
+      const wrappers = anatomy.chain.filter(entry => entry.file !== anatomy.target);
+      if (wrappers.length > 0) {
+        markdown.appendMarkdown(`\nLayout chain: ${wrappers.map(entry => `\`${vscode.workspace.asRelativePath(entry.file.filePath)}\``).join(' → ')}\n`);
+      }
+    }
+
+    return new vscode.Hover(markdown, target.range);
+  }
+
+  /**
+   * DefinitionProvider implementation: jump to the page or route handler an href renders
+   */
+  provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.LocationLink[] | undefined {
+    const target = this.findHref(document, position);
+    if (!target) {
+      return undefined;
+    }
+
+    return matchHref(target.literal.href, target.routes).map(route => ({
+      originSelectionRange: target.range,
+      targetUri: vscode.Uri.file(route.filePath),
+      targetRange: new vscode.Range(0, 0, 0, 0)
+    }));
+  }
+
+  /**
+   * The href literal under the cursor and the routes of the app owning the document
+   */
+  private findHref(document: vscode.TextDocument, position: vscode.Position): { literal: HrefLiteral; range: vscode.Range; routes: RouteItem[] } | null {
+    const app = this.routesProvider.getAppForFile(document.uri.fsPath);
+    const literal = app ? findHrefAt(document.getText(), document.offsetAt(position)) : null;
+    if (!app || !literal) {
+      return null;
+    }
+
+    const range = new vscode.Range(document.positionAt(literal.start), document.positionAt(literal.start + literal.href.length));
+    return { literal, range, routes: flattenRouteItems(this.routesProvider.getRoutesForApp(app)) };
+  }
+
+  /**
+   * Insert a route path with a tab stop per parameter; optional catch-alls are left out
+   */
+  private buildSnippet(segments: string[]): vscode.SnippetString {
+    const snippet = new vscode.SnippetString();
+    for (const segment of segments) {
+      if (ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(segment)) {
+        break;
+      }
+      const param = ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(segment) || ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(segment);
+      snippet.appendText('/');
+      if (param) {
+        snippet.appendPlaceholder(param[1]);
+      } else {
+        snippet.appendText(segment);
+      }
+    }
+    if (segments.length === 0 || ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(segments[0])) {
+      snippet.appendText('/');
+    }
+    return snippet;
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { replaceRouteParameters, getMissingParameters } from '../utils/parameterUtils';
+import { replaceRouteParameters, getMissingParameters, applyParameterValues } from '../utils/parameterUtils';
+import { StaticParamValues } from '../utils';
+import { NextjsRoutesProvider } from './routesProvider';
 
 interface RouteParameter {
   id: string;
@@ -7,16 +9,34 @@ interface RouteParameter {
   value: string;
 }
 
+// Prebuilt param sets of the route in the active editor, offered as one-click choices
+interface StaticParamChoices {
+  routePath: string;
+  values: StaticParamValues[];
+}
+
 export class RouteParametersProvider implements vscode.WebviewViewProvider {
   public static readonly viewId = 'nextjsRadar.routeParameters';
   private _view?: vscode.WebviewView;
   private disposables: vscode.Disposable[] = [];
   private parameters: RouteParameter[] = [];
   private isExpanded = true;
+  private currentFilePath: string | null = null;
+  private choices: StaticParamChoices | null = null;
 
-  constructor(private context: vscode.ExtensionContext) {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private routesProvider: NextjsRoutesProvider
+  ) {
     // Load saved parameters
     this.loadParameters();
+
+    // Offer the generateStaticParams values of the route being edited
+    vscode.window.onDidChangeActiveTextEditor(this.onActiveEditorChanged, this, context.subscriptions);
+    this.disposables.push(this.routesProvider.onDidChangeTreeData(() => this.updateChoices()));
+    if (vscode.window.activeTextEditor) {
+      this.onActiveEditorChanged(vscode.window.activeTextEditor);
+    }
   }
 
   resolveWebviewView(webviewView: vscode.WebviewView): void | Thenable<void> {
@@ -42,6 +62,11 @@ export class RouteParametersProvider implements vscode.WebviewViewProvider {
         case 'update-parameter':
           this.updateParameter(msg.id, msg.key, msg.value);
           break;
+        case 'apply-choice':
+          if (this.choices?.values[msg.index]) {
+            this.setParameters(this.choices.values[msg.index]);
+          }
+          break;
       }
     }, undefined, this.disposables);
   }
@@ -91,16 +116,50 @@ export class RouteParametersProvider implements vscode.WebviewViewProvider {
   }
 
 
+  /**
+   * Handle active editor change; files that aren't routes keep the last choices on screen
+   */
+  private onActiveEditorChanged(editor?: vscode.TextEditor): void {
+    const filePath = editor?.document.uri.fsPath;
+    if (filePath && this.routesProvider.getAppForFile(filePath)) {
+      this.currentFilePath = filePath;
+      this.updateChoices();
+    }
+  }
+
+  /**
+   * Pick up the prebuilt param sets of the current route from the latest scan
+   */
+  private updateChoices(): void {
+    const route = this.currentFilePath ? this.routesProvider.getRouteByFilePath(this.currentFilePath) : undefined;
+    const values = route?.staticParams?.values;
+    if (route) {
+      this.choices = values && values.length > 0 ? { routePath: route.path, values } : null;
+      this.updateView();
+    }
+  }
+
   private updateView(): void {
     if (this._view) {
       this._view.webview.postMessage({
         type: 'updateParameters',
         parameters: this.parameters,
-        isExpanded: this.isExpanded
+        isExpanded: this.isExpanded,
+        choices: this.getChoiceEntries()
       });
     }
   }
 
+  /**
+   * Choice buttons: the concrete path each param set opens
+   */
+  private getChoiceEntries(): { label: string; title: string }[] {
+    return (this.choices?.values || []).map(values => ({
+      label: applyParameterValues(this.choices!.routePath, values),
+      title: Object.entries(values).map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join('/') : value}`).join('\n')
+    }));
+  }
+
   private getHtml(): string {
     const nonce = Date.now().toString();
     
@@ -268,6 +327,37 @@ body {
   font-size: 11px;
   margin-left: 4px;
 }
+
+.choices {
+  margin-top: 12px;
+}
+
+.choices-title {
+  margin-bottom: 6px;
+  color: var(--vscode-descriptionForeground);
+  font-size: 11px;
+}
+
+.choices-list {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px;
+}
+
+.choice-btn {
+  padding: 2px 8px;
+  border-radius: 10px;
+  border: 1px solid var(--vscode-button-border, transparent);
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+  cursor: pointer;
+  font-size: 11px;
+  font-family: var(--vscode-editor-font-family);
+}
+
+.choice-btn:hover {
+  background: var(--vscode-button-secondaryHoverBackground);
+}
 </style>
 </head>
 <body>
@@ -282,6 +372,7 @@ body {
   
   <div class="parameters-content ${this.isExpanded ? 'expanded' : 'collapsed'}" id="content">
     <div id="parameters-container">${this.getParametersHtml()}</div>
+    <div id="choices-container"></div>
   </div>
 
 <script nonce="${nonce}">
@@ -318,23 +409,26 @@ document.addEventListener('input', (e) => {
   }
 });
 
-// Delete parameter button
+// Delete parameter button, and prebuilt value choices
 document.addEventListener('click', (e) => {
   if (e.target.classList.contains('delete-parameter-btn')) {
     const paramId = e.target.dataset.paramId;
     vscode.postMessage({ type: 'delete-parameter', id: paramId });
   }
+  if (e.target.classList.contains('choice-btn')) {
+    vscode.postMessage({ type: 'apply-choice', index: Number(e.target.dataset.index) });
+  }
 });
 
 // Handle updates from extension
 window.addEventListener('message', event => {
   const message = event.data;
   if (message.type === 'updateParameters') {
-    updateParametersDisplay(message.parameters, message.isExpanded);
+    updateParametersDisplay(message.parameters, message.isExpanded, message.choices);
   }
 });
 
-function updateParametersDisplay(parameters, isExpanded) {
+function updateParametersDisplay(parameters, isExpanded, choices) {
   // Update expand icon
   const expandIcon = document.getElementById('expand-icon');
   expandIcon.textContent = isExpanded ? '▼' : '▶';
@@ -349,6 +443,32 @@ function updateParametersDisplay(parameters, isExpanded) {
   
   // Update parameters container
   document.getElementById('parameters-container').innerHTML = getParametersHtml(parameters);
+  document.getElementById('choices-container').innerHTML = getChoicesHtml(choices);
+}
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getChoicesHtml(choices) {
+  if (!choices || choices.length === 0) {
+    return '';
+  }
+
+  const buttons = choices.map((choice, index) => \`
+    <button class="choice-btn" data-index="\${index}" title="\${escapeHtml(choice.title)}">\${escapeHtml(choice.label)}</button>
+  \`).join('');
+
+  return \`
+    <div class="choices">
+      <div class="choices-title">Prebuilt by generateStaticParams</div>
+      <div class="choices-list">\${buttons}</div>
+    </div>
+  \`;
 }
 
 function getParametersHtml(parameters) {
@@ -410,7 +530,7 @@ function getParametersHtml(parameters) {
 }
 
 // Initialize with current data
-updateParametersDisplay(${JSON.stringify(this.parameters)}, ${this.isExpanded});
+updateParametersDisplay(${JSON.stringify(this.parameters)}, ${this.isExpanded}, ${JSON.stringify(this.getChoiceEntries())});
 </script>
 </body>
 </html>`;
@@ -479,6 +599,49 @@ updateParametersDisplay(${JSON.stringify(this.parameters)}, ${this.isExpanded});
     return [...this.parameters];
   }
 
+  public setParameters(values: Record<string, string | string[]>): void {
+    for (const [key, rawValue] of Object.entries(values)) {
+      const value = Array.isArray(rawValue) ? rawValue.join('/') : rawValue;
+      const existing = this.parameters.find(param => param.key === key);
+      if (existing) {
+        existing.value = value;
+      } else {
+        this.parameters.push({ id: `${Date.now()}-${key}`, key, value });
+      }
+    }
+    this.saveParameters();
+    this.updateView();
+  }
+
+  /**
+   * Offer the prebuilt param sets of a route before opening it; the picked set
+   * becomes the current parameters. Returns false when the pick is dismissed.
+   */
+  public async pickStaticParams(routePath: string, values: StaticParamValues[]): Promise<boolean> {
+    const current = {
+      label: '$(edit) Use current parameters',
+      description: this.replaceParametersInPath(routePath),
+      values: undefined as StaticParamValues | undefined
+    };
+    const prebuilt = values.map(set => ({
+      label: applyParameterValues(routePath, set),
+      description: 'generateStaticParams',
+      values: set as StaticParamValues | undefined
+    }));
+
+    const picked = await vscode.window.showQuickPick([current, ...prebuilt], {
+      placeHolder: `Open ${routePath} with`,
+      matchOnDescription: true
+    });
+    if (!picked) {
+      return false;
+    }
+    if (picked.values) {
+      this.setParameters(picked.values);
+    }
+    return true;
+  }
+
   public replaceParametersInPath(routePath: string): string {
     return replaceRouteParameters(routePath, this.parameters);
   }
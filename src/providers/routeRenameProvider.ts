@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { NextjsRoutesProvider } from './routesProvider';
+import { RouteFileType, RouterType } from '../constants';
+import {
+  RouteReference,
+  SegmentRename,
+  buildRenameRedirect,
+  findNextConfigPath,
+  flattenRouteItems,
+  planRedirectInsertion,
+  renameHrefSegment,
+  validateSegmentName
+} from '../utils';
+
+// A folder (or Pages Router file) a route can be renamed at
+interface RenameCandidate {
+  // Path being moved: the folder, or the file for Pages Router stems
+  fsPath: string;
+  // Extension kept when renaming a Pages Router file
+  extension: string;
+  parentSegments: string[];
+  name: string;
+}
+
+/**
+ * Rename a route segment: move its folder, rewrite the hrefs pointing below it and
+ * optionally keep the old URLs working with a next.config redirect, as one previewed edit
+ */
+export class RouteRenameProvider {
+  constructor(private routesProvider: NextjsRoutesProvider) {}
+
+  /**
+   * Pick a segment of the route defined by a file, ask for its new name and apply the rename
+   */
+  public async renameSegment(filePath: string): Promise<void> {
+    const route = this.routesProvider.getRouteByFilePath(filePath);
+    const app = this.routesProvider.getAppForFile(filePath);
+    const routerDirectory = route?.router === RouterType.Pages ? app?.pagesDirectory : app?.appDirectory;
+    // Redirects, rewrites and middleware live outside the router directories
+    if (!route || !app || !routerDirectory || !filePath.startsWith(routerDirectory + path.sep)) {
+      vscode.window.showInformationMessage('Route segments can be renamed for files in the app or pages directory');
+      return;
+    }
+
+    const candidate = await this.pickCandidate(path.relative(routerDirectory, filePath), routerDirectory, route.router);
+    if (!candidate) {
+      return;
+    }
+
+    const newName = await vscode.window.showInputBox({
+      prompt: `Rename route segment ${candidate.name}`,
+      value: candidate.name,
+      validateInput: value => {
+        if (value === candidate.name) {
+          return 'Enter a different name';
+        }
+        if (route.router === RouterType.Pages && /^[(@]/.test(value)) {
+          return 'Route groups and parallel slots are App Router only';
+        }
+        return validateSegmentName(value);
+      }
+    });
+    if (!newName) {
+      return;
+    }
+
+    const newPath = path.join(path.dirname(candidate.fsPath), newName + candidate.extension);
+    if (await this.exists(newPath)) {
+      vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(newPath)} already exists`);
+      return;
+    }
+
+    const rename: SegmentRename = { parentSegments: candidate.parentSegments, oldName: candidate.name, newName };
+    const edit = new vscode.WorkspaceEdit();
+
+    // Hrefs resolving to any page or route handler being moved
+    const moved = flattenRouteItems(this.routesProvider.getRoutesForApp(app))
+      .filter(item => item.fileType === RouteFileType.Page || item.fileType === RouteFileType.Route)
+      .filter(item => item.filePath === candidate.fsPath || item.filePath.startsWith(candidate.fsPath + path.sep));
+    const references = new Map<string, RouteReference>();
+    for (const item of moved) {
+      for (const reference of this.routesProvider.getRouteReferences(item.filePath)) {
+        references.set(`${reference.filePath}:${reference.line}:${reference.character}`, reference);
+      }
+    }
+    for (const reference of references.values()) {
+      const href = renameHrefSegment(reference.href, rename);
+      if (href !== null) {
+        const range = new vscode.Range(reference.line, reference.character, reference.line, reference.character + reference.href.length);
+        edit.replace(vscode.Uri.file(reference.filePath), range, href, { label: 'Update internal hrefs', needsConfirmation: true });
+      }
+    }
+
+    // Old URLs keep working through a permanent redirect, when the user wants one
+    const redirect = buildRenameRedirect(rename);
+    const configPath = redirect ? await findNextConfigPath(app.projectRoot) : null;
+    if (redirect && configPath) {
+      const choice = await vscode.window.showInformationMessage(
+        `Add a redirect from ${redirect.source} to ${redirect.destination} in ${path.basename(configPath)}?`,
+        { modal: true },
+        'Add Redirect', 'No Redirect'
+      );
+      if (!choice) {
+        return;
+      }
+      if (choice === 'Add Redirect') {
+        const document = await vscode.workspace.openTextDocument(configPath);
+        const insertion = planRedirectInsertion(document.getText(), redirect);
+        if (insertion) {
+          edit.insert(document.uri, document.positionAt(insertion.offset), insertion.text, { label: 'Add next.config redirect', needsConfirmation: true });
+        } else {
+          vscode.window.showWarningMessage(`Could not find where to add the redirect in ${path.basename(configPath)}; add { source: '${redirect.source}', destination: '${redirect.destination}', permanent: true } by hand`);
+        }
+      }
+    }
+
+    // Moved last so the href edits above still apply to files inside the folder
+    edit.renameFile(vscode.Uri.file(candidate.fsPath), vscode.Uri.file(newPath), undefined, { label: 'Rename route segment', needsConfirmation: true });
+
+    if (await vscode.workspace.applyEdit(edit)) {
+      await this.routesProvider.refresh();
+    }
+  }
+
+  /**
+   * The folders along a route file's path, deepest first; non-index Pages Router files add their own name
+   */
+  private async pickCandidate(relativePath: string, routerDirectory: string, router: RouterType): Promise<RenameCandidate | undefined> {
+    const parts = relativePath.split(path.sep);
+    const folders = parts.slice(0, -1);
+    const candidates: RenameCandidate[] = folders.map((name, index) => ({
+      fsPath: path.join(routerDirectory, ...folders.slice(0, index + 1)),
+      extension: '',
+      parentSegments: folders.slice(0, index),
+      name
+    }));
+
+    const fileName = parts[parts.length - 1];
+    const extension = path.extname(fileName);
+    const stem = fileName.slice(0, fileName.length - extension.length);
+    if (router === RouterType.Pages && stem !== 'index') {
+      candidates.push({ fsPath: path.join(routerDirectory, relativePath), extension, parentSegments: folders, name: stem });
+    }
+
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('The root route has no segment to rename');
+      return undefined;
+    }
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      candidates.reverse().map(candidate => ({
+        label: candidate.name,
+        description: [...candidate.parentSegments, candidate.name + candidate.extension].join('/'),
+        candidate
+      })),
+      { placeHolder: 'Select the route segment to rename' }
+    );
+    return picked?.candidate;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { NextjsRoutesProvider } from './routesProvider';
+import { HttpMethod, RouteFileType } from '../constants';
+import {
+  NextjsApp,
+  ROUTE_TEMPLATES_DIRECTORY,
+  SCAFFOLD_FILE_TYPES,
+  loadRouteTemplates,
+  renderRouteFiles,
+  validateSegmentName
+} from '../utils';
+
+const FILE_TYPE_DESCRIPTIONS: Partial<Record<RouteFileType, string>> = {
+  [RouteFileType.Page]: 'UI of the route',
+  [RouteFileType.Layout]: 'Shared UI wrapping the route and its children',
+  [RouteFileType.Loading]: 'Suspense fallback while the route loads',
+  [RouteFileType.Error]: 'Error boundary (Client Component)',
+  [RouteFileType.NotFound]: 'UI for notFound() below the route',
+  [RouteFileType.Route]: 'Route handler with the HTTP methods you pick'
+};
+
+/**
+ * New Route wizard: ask for a segment and its convention files, then generate them
+ * from team templates in .vscode/nextjs-radar/templates or the built-in ones
+ */
+export class RouteScaffoldProvider {
+  constructor(private routesProvider: NextjsRoutesProvider) {}
+
+  /**
+   * Create a route below the folder of a route file, or at the app directory root
+   */
+  public async newRoute(filePath?: string): Promise<void> {
+    const app = filePath ? this.routesProvider.getAppForFile(filePath) : await this.pickApp();
+    if (!app) {
+      return;
+    }
+    if (!app.appDirectory) {
+      vscode.window.showInformationMessage(`New Route creates App Router folders; ${app.name} has no app directory`);
+      return;
+    }
+
+    const appDirectory = app.appDirectory;
+    const parentDirectory = filePath && filePath.startsWith(appDirectory + path.sep) ? path.dirname(filePath) : appDirectory;
+    const parentSegments = path.relative(appDirectory, parentDirectory).split(path.sep).filter(Boolean);
+
+    const input = await vscode.window.showInputBox({
+      prompt: `New route segment under /${parentSegments.join('/')}`,
+      placeHolder: 'blog, [slug], (marketing) or blog/[slug]',
+      validateInput: value => {
+        for (const segment of value.trim().split('/')) {
+          const problem = validateSegmentName(segment);
+          if (problem) {
+            return problem;
+          }
+        }
+        return undefined;
+      }
+    });
+    if (!input) {
+      return;
+    }
+    const newSegments = input.trim().split('/');
+
+    const pickedFiles = await vscode.window.showQuickPick(
+      SCAFFOLD_FILE_TYPES.map(fileType => ({
+        label: fileType,
+        description: FILE_TYPE_DESCRIPTIONS[fileType],
+        picked: fileType === RouteFileType.Page,
+        fileType
+      })),
+      { placeHolder: 'Select the files to create', canPickMany: true }
+    );
+    if (!pickedFiles || pickedFiles.length === 0) {
+      return;
+    }
+    const fileTypes = pickedFiles.map(item => item.fileType);
+    if (fileTypes.includes(RouteFileType.Page) && fileTypes.includes(RouteFileType.Route)) {
+      vscode.window.showErrorMessage('A segment cannot have both a page and a route handler');
+      return;
+    }
+
+    let methods: HttpMethod[] = [];
+    if (fileTypes.includes(RouteFileType.Route)) {
+      const pickedMethods = await vscode.window.showQuickPick(
+        Object.values(HttpMethod).map(method => ({ label: method, picked: method === HttpMethod.Get, method })),
+        { placeHolder: 'Select the HTTP methods of the route handler', canPickMany: true }
+      );
+      if (!pickedMethods || pickedMethods.length === 0) {
+        return;
+      }
+      methods = pickedMethods.map(item => item.method);
+    }
+
+    const templateDirectories = [...new Set([app.projectRoot, app.workspaceFolder])].map(root => path.join(root, ROUTE_TEMPLATES_DIRECTORY));
+    const files = renderRouteFiles({
+      segments: [...parentSegments, ...newSegments],
+      fileTypes,
+      methods,
+      typescript: await this.exists(path.join(app.projectRoot, 'tsconfig.json')),
+      templates: await loadRouteTemplates(templateDirectories)
+    });
+
+    const routeDirectory = path.join(parentDirectory, ...newSegments);
+    const created: string[] = [];
+    const skipped: string[] = [];
+    try {
+      await fs.promises.mkdir(routeDirectory, { recursive: true });
+      for (const file of files) {
+        const target = path.join(routeDirectory, file.fileName);
+        // Existing convention files (another extension included) are left alone
+        const existing = await this.findConventionFile(routeDirectory, file.fileName);
+        if (existing) {
+          skipped.push(existing);
+          continue;
+        }
+        await fs.promises.writeFile(target, file.content, 'utf8');
+        created.push(target);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to create route: ${error}`);
+      return;
+    }
+
+    await this.routesProvider.refresh();
+    if (created.length > 0) {
+      const document = await vscode.workspace.openTextDocument(created[0]);
+      await vscode.window.showTextDocument(document);
+    }
+
+    const relativeDirectory = vscode.workspace.asRelativePath(routeDirectory);
+    const message = created.length > 0
+      ? `Created ${created.map(file => path.basename(file)).join(', ')} in ${relativeDirectory}`
+      : `No files created in ${relativeDirectory}`;
+    vscode.window.showInformationMessage(skipped.length > 0 ? `${message} (already there: ${skipped.join(', ')})` : message);
+  }
+
+  private async pickApp(): Promise<NextjsApp | undefined> {
+    const apps = this.routesProvider.getApps();
+    if (apps.length <= 1) {
+      return apps[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      apps.map(app => ({ label: app.name, detail: vscode.workspace.asRelativePath(app.projectRoot), app })),
+      { placeHolder: 'Select the app to add a route to' }
+    );
+    return picked?.app;
+  }
+
+  /**
+   * A file in the folder with the same convention name, whatever its extension
+   */
+  private async findConventionFile(directory: string, fileName: string): Promise<string | undefined> {
+    const name = fileName.slice(0, fileName.length - path.extname(fileName).length);
+    const entries = await fs.promises.readdir(directory);
+    return entries.find(entry => entry.slice(0, entry.length - path.extname(entry).length) === name);
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -3,21 +3,66 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { 
   RouteFileType, 
+  RouterType,
+  RouteSegmentConfig,
   NextJsRouteConfig,
-  DEFAULT_EXCLUDE_PATTERNS 
+  DEFAULT_EXCLUDE_PATTERNS,
+  SOURCE_FILE_GLOB,
+  SOURCE_EXCLUDE_GLOB,
+  getRouteFileExtensions
 } from '../constants';
-import { RouteItem } from '../models';
+import { RouteItem, RouteMethodItem, RouteLinkItem, ColocatedFolderItem, ColocatedFileItem } from '../models';
 import { 
-  findNextjsAppDir,
-  scanAppRouterFiles,
+  findNextjsApps,
+  scanAppRouterTree,
+  scanPagesRouterFiles,
   buildRouteHierarchy,
+  buildPagesRouteItems,
+  analyzeRouteProblems,
+  RouteProblem,
+  RouteProblemKind,
   sortRoutes,
-  getWorkspaceRoot,
-  isNextjsProject,
-  AppRouterFile
+  getWorkspaceRoots,
+  parseUrl,
+  AppRouterFile,
+  NextjsApp,
+  NextConfigInfo,
+  NEXT_CONFIG_FILES,
+  loadNextConfig,
+  getDefaultNextConfig,
+  buildConfigRouteItems,
+  applyNextConfigToPath,
+  buildRouteUrl,
+  MIDDLEWARE_FILES,
+  MiddlewareInfo,
+  loadMiddleware,
+  findMiddlewareMatcher,
+  buildMiddlewareRouteItem,
+  loadRouteHandlerMethods,
+  parseRouteSearchQuery,
+  matchesRouteFilters,
+  loadSegmentConfig,
+  resolveSegmentConfigs,
+  buildSlotMatrices,
+  resolveInterceptingRoutes,
+  classifyComponents,
+  collectStaticParams,
+  loadBuildOutput,
+  collectBuildInfo,
+  RouteReference,
+  collectRouteReferences,
+  matchHref,
+  findDeadLinks,
+  assignColocatedFiles,
+  isPrivateSegment,
+  ColocatedFile,
+  forEachRouteItem
 } from '../utils';
 
 export type ViewType = 'hierarchical' | 'flat';
+
+// Quiet period before changed source files are re-indexed for route references
+const REFERENCE_INDEX_DELAY = 500;
 export type SortingType = 'natural' | 'basic';
 
 export interface NextjsRadarConfig extends NextJsRouteConfig {
@@ -25,8 +70,22 @@ export interface NextjsRadarConfig extends NextJsRouteConfig {
   sortingType?: SortingType;
   showFileExtensions?: boolean;
   groupByType?: boolean;
+  showColocatedFiles?: boolean;
   categorizeRoot?: boolean; // NEW: group routes into categories at root
   hostUrl?: string; // NEW: configurable host URL for opening in browser
+  appHostUrls?: Record<string, string>; // host URL per app in multi-app workspaces
+}
+
+interface AppRouteState {
+  app: NextjsApp;
+  files: AppRouterFile[];
+  pagesFiles: AppRouterFile[];
+  problems: RouteProblem[];
+  nextConfig: NextConfigInfo;
+  references: RouteReference[];
+  deadLinks: RouteReference[];
+  routes: RouteItem[];
+  filteredRoutes: RouteItem[];
 }
 
 export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
@@ -36,12 +95,21 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
   private routes: RouteItem[] = [];
   private allFiles: AppRouterFile[] = [];
   private workspaceRoot: string | null = null;
-  private appDirectory: string | null = null;
+  private apps: NextjsApp[] = [];
+  private appStates: AppRouteState[] = [];
   private config: NextjsRadarConfig = this.getDefaultConfig();
-  private fileWatcher: vscode.FileSystemWatcher | null = null;
+  private fileWatchers: vscode.FileSystemWatcher[] = [];
   private searchQuery: string = '';
   private filteredRoutes: RouteItem[] = [];
   private categoryContext = 'nextjs-radar-category';
+  private appContext = 'nextjs-radar-app';
+
+  // Reference indexing: apps already fully indexed, files to re-parse, the debounce timer and the run in flight
+  private indexedApps = new Set<string>();
+  private pendingReferenceFiles = new Set<string>();
+  private referenceTimer: ReturnType<typeof setTimeout> | undefined;
+  private referenceRun: Promise<void> | undefined;
+  private referenceRerun = false;
 
   constructor(private context: vscode.ExtensionContext) {
     this.initialize();
@@ -53,7 +121,8 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
   private getDefaultConfig(): NextjsRadarConfig {
     return {
       projectRoot: './',
-      appDirectory: 'src/app',
+      // Empty: detect app/ or src/app/
+      appDirectory: '',
       port: 3000,
       enablePageContentView: true,
       excludePatterns: [...DEFAULT_EXCLUDE_PATTERNS],
@@ -61,8 +130,10 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
       sortingType: 'natural',
       showFileExtensions: false,
       groupByType: true,
+      showColocatedFiles: true,
       categorizeRoot: true,
-      hostUrl: 'http://localhost:3000'
+      hostUrl: 'http://localhost:3000',
+      appHostUrls: {}
     };
   }
 
@@ -70,35 +141,48 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
    * Initialize the provider
    */
   private async initialize(): Promise<void> {
-    this.workspaceRoot = getWorkspaceRoot();
+    // Configuration is read from the first workspace folder
+    this.workspaceRoot = getWorkspaceRoots()[0] || null;
     
     if (!this.workspaceRoot) {
       return;
     }
 
-    // Check if this is a Next.js project
-    if (!(await isNextjsProject(this.workspaceRoot))) {
-      return;
-    }
-
     // Load configuration
     await this.loadConfiguration();
 
-    // Find app directory
-    this.appDirectory = await findNextjsAppDir(this.workspaceRoot);
-    
-    if (!this.appDirectory) {
-      return;
-    }
-
-    // Initial scan
-    await this.refresh();
-
-    // Set up file watcher
-    this.setupFileWatcher();
+    // Find every Next.js app, scan them and watch their app directories
+    await this.discoverApps();
 
     // Set up configuration change listener
     this.setupConfigurationChangeListener();
+
+    // Hrefs can live in any source file, not only in the watched router directories
+    const saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+      const filePath = document.uri.fsPath;
+      const app = this.getAppForFile(filePath);
+      const inRouter = app && [app.appDirectory, app.pagesDirectory].some(directory => directory && filePath.startsWith(directory + path.sep));
+      if (app && !inRouter && /\.(m|c)?[jt]sx?$/.test(filePath)) {
+        this.scheduleReferenceIndex(filePath);
+      }
+    });
+    this.context.subscriptions.push(saveListener);
+
+    // Rediscover apps when folders are added to or removed from the workspace
+    const foldersChangeListener = vscode.workspace.onDidChangeWorkspaceFolders(() => this.discoverApps());
+    this.context.subscriptions.push(foldersChangeListener);
+  }
+
+  /**
+   * Discover Next.js apps across all workspace folders
+   */
+  private async discoverApps(): Promise<void> {
+    this.apps = await findNextjsApps(getWorkspaceRoots(), this.config.appDirectory);
+    
+    console.log('Next.js Radar: Apps discovered:', this.apps.map(app => app.name));
+
+    await this.setupFileWatchers();
+    await this.refresh();
   }
 
   /**
@@ -127,8 +211,10 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
         this.config.sortingType = workspaceConfig.get('sortingType', this.config.sortingType);
         this.config.showFileExtensions = workspaceConfig.get('showFileExtensions', this.config.showFileExtensions);
         this.config.groupByType = workspaceConfig.get('groupByType', this.config.groupByType);
+        this.config.showColocatedFiles = workspaceConfig.get('showColocatedFiles', this.config.showColocatedFiles);
         this.config.categorizeRoot = workspaceConfig.get('categorizeRoot', this.config.categorizeRoot);
         this.config.hostUrl = workspaceConfig.get('hostUrl', this.config.hostUrl);
+        this.config.appHostUrls = workspaceConfig.get('appHostUrls', this.config.appHostUrls);
         
         // Debug: Log loaded configuration
         console.log('Next.js Radar: Configuration loaded:', {
@@ -143,23 +229,71 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
   }
 
   /**
-   * Set up file system watcher
+   * Set up file system watchers, one per app directory
    */
-  private setupFileWatcher(): void {
-    if (!this.appDirectory) {
-      return;
-    }
+  private async setupFileWatchers(): Promise<void> {
+    this.disposeFileWatchers();
 
-    // Watch for changes in the app directory
-    const pattern = new vscode.RelativePattern(this.appDirectory, '**/*.{ts,tsx,js,jsx}');
-    this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+    for (const app of this.apps) {
+      // pageExtensions (e.g. mdx) decide which files can become routes
+      const { pageExtensions, distDir } = await loadNextConfig(app.projectRoot);
+      const extensions = getRouteFileExtensions(pageExtensions);
 
-    this.fileWatcher.onDidCreate(() => this.refresh());
-    this.fileWatcher.onDidDelete(() => this.refresh());
-    this.fileWatcher.onDidChange(() => this.refresh());
+      for (const routerDirectory of [app.appDirectory, app.pagesDirectory]) {
+        if (!routerDirectory) {
+          continue;
+        }
 
-    // Register for cleanup
-    this.context.subscriptions.push(this.fileWatcher);
+        // Watch for changes in the app and pages directories
+        const pattern = new vscode.RelativePattern(routerDirectory, `**/*.{${extensions.join(',')}}`);
+        const fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+        // Route files link to other routes too, so each changed file is re-parsed for hrefs
+        const onRouteFileChange = (uri: vscode.Uri) => {
+          this.pendingReferenceFiles.add(uri.fsPath);
+          return this.refresh();
+        };
+        fileWatcher.onDidCreate(onRouteFileChange);
+        fileWatcher.onDidDelete(onRouteFileChange);
+        fileWatcher.onDidChange(onRouteFileChange);
+
+        this.fileWatchers.push(fileWatcher);
+      }
+
+      // basePath, redirects and rewrites come from next.config, matchers from middleware
+      const projectFiles = [
+        ...NEXT_CONFIG_FILES,
+        ...MIDDLEWARE_FILES,
+        ...MIDDLEWARE_FILES.map(fileName => `src/${fileName}`)
+      ];
+      const configPattern = new vscode.RelativePattern(app.projectRoot, `{${projectFiles.join(',')}}`);
+      const configWatcher = vscode.workspace.createFileSystemWatcher(configPattern);
+
+      // pageExtensions may have changed, so the route file watchers are rebuilt too
+      const onConfigChange = () => this.setupFileWatchers().then(() => this.refresh());
+      configWatcher.onDidCreate(onConfigChange);
+      configWatcher.onDidDelete(onConfigChange);
+      configWatcher.onDidChange(onConfigChange);
+
+      this.fileWatchers.push(configWatcher);
+
+      // A finished `next build` has written its BUILD_ID and prerender manifest
+      const buildPattern = new vscode.RelativePattern(app.projectRoot, `${distDir}/{BUILD_ID,prerender-manifest.json}`);
+      const buildWatcher = vscode.workspace.createFileSystemWatcher(buildPattern);
+      buildWatcher.onDidCreate(() => this.refresh());
+      buildWatcher.onDidDelete(() => this.refresh());
+      buildWatcher.onDidChange(() => this.refresh());
+
+      this.fileWatchers.push(buildWatcher);
+    }
+  }
+
+  /**
+   * Dispose the current file system watchers
+   */
+  private disposeFileWatchers(): void {
+    this.fileWatchers.forEach(watcher => watcher.dispose());
+    this.fileWatchers = [];
   }
 
   /**
@@ -171,6 +305,7 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
         // Reload configuration when Next.js Radar settings change
         this.loadConfiguration().then(() => {
           console.log('Next.js Radar: Configuration reloaded due to settings change');
+          return this.refresh();
         });
       }
     });
@@ -183,22 +318,73 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
    * Refresh the tree data
    */
   public async refresh(): Promise<void> {
-    if (!this.appDirectory) {
+    if (this.apps.length === 0) {
       return;
     }
 
     try {
-      // Scan for route files
-      this.allFiles = await scanAppRouterFiles(this.appDirectory);
-      // Build hierarchy
-      const allRoutes = buildRouteHierarchy(this.allFiles);
-      // Apply view type
-      this.routes = this.config.viewType === 'flat' ? this.flattenRoutes(allRoutes) : allRoutes;
-      // Apply sorting
-      this.routes = this.applySorting(this.routes);
-      // Apply search filter if active
-      this.filteredRoutes = this.searchQuery ? this.filterRoutes(this.routes, this.searchQuery.toLowerCase()) : this.routes;
+      // Route IDs only need an app prefix when several apps share the tree
+      const prefixIds = this.apps.length > 1;
+      const appStates: AppRouteState[] = [];
+
+      for (const app of this.apps) {
+        const idPrefix = prefixIds ? `${app.name}:` : '';
+        const nextConfig = await loadNextConfig(app.projectRoot);
+        // Scan for route files in both routers
+        const scanOptions = {
+          projectRoot: app.projectRoot,
+          excludePatterns: this.config.excludePatterns,
+          pageExtensions: nextConfig.pageExtensions
+        };
+        const { files, colocatedFiles } = app.appDirectory
+          ? await scanAppRouterTree(app.appDirectory, scanOptions)
+          : { files: [], colocatedFiles: [] };
+        const pagesFiles = app.pagesDirectory ? await scanPagesRouterFiles(app.pagesDirectory, scanOptions) : [];
+        const middleware = await loadMiddleware(app.projectRoot);
+        // Build hierarchy, Pages Router routes and config redirects/rewrites sit next to the App Router tree
+        const allRoutes = [
+          ...buildRouteHierarchy(files, idPrefix),
+          ...buildPagesRouteItems(pagesFiles, idPrefix),
+          ...buildConfigRouteItems(nextConfig, idPrefix)
+        ];
+        await this.loadRouteMethods(allRoutes);
+        await this.markSegmentConfigs(allRoutes, files);
+        await this.markComponents(allRoutes, files, app.projectRoot);
+        await this.markStaticParams(allRoutes, files, app.projectRoot);
+        await this.markBuildOutput(allRoutes, [...files, ...pagesFiles], app.projectRoot, nextConfig.distDir);
+        // Hrefs found so far are matched against the new routes; changed files are re-parsed in the background
+        const previousReferences = this.appStates.find(state => state.app.projectRoot === app.projectRoot)?.references || [];
+        const references = this.retargetReferences(previousReferences, [...files, ...pagesFiles]);
+        const deadLinks = await findDeadLinks(references, [...files, ...pagesFiles], nextConfig, app.projectRoot);
+        this.markReferences(allRoutes, references);
+        this.markSlotMatrices(allRoutes, files);
+        this.markInterceptingRoutes(allRoutes, files);
+        if (this.config.showColocatedFiles) {
+          this.markColocatedFiles(allRoutes, files, colocatedFiles);
+        }
+        const problems = analyzeRouteProblems(files, pagesFiles);
+        this.markRouteProblems(allRoutes, problems);
+        if (middleware) {
+          this.markMiddlewareRoutes(allRoutes, middleware);
+          allRoutes.push(buildMiddlewareRouteItem(middleware, idPrefix));
+        }
+        // Apply view type
+        let routes = this.config.viewType === 'flat' ? this.flattenRoutes(allRoutes) : allRoutes;
+        // Apply sorting
+        routes = this.applySorting(routes);
+        // Apply search filter if active
+        const filteredRoutes = this.searchQuery ? this.filterRoutes(routes, this.searchQuery.toLowerCase()) : routes;
+
+        appStates.push({ app, files, pagesFiles, problems, nextConfig, references, deadLinks, routes, filteredRoutes });
+      }
+
+      this.appStates = appStates;
+      this.syncCombinedRoutes();
       this._onDidChangeTreeData.fire();
+
+      if (this.pendingReferenceFiles.size > 0 || this.apps.some(app => !this.indexedApps.has(app.projectRoot))) {
+        this.scheduleReferenceIndex();
+      }
     } catch (error) {
       console.error('Failed to refresh routes:', error);
       vscode.window.showErrorMessage(`Failed to refresh Next.js routes: ${error}`);
@@ -220,19 +406,410 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
     if ((element as any).categoryChildren) {
       return Promise.resolve((element as any).categoryChildren);
     }
+    if (element instanceof ColocatedFolderItem) {
+      return Promise.resolve(element.entries);
+    }
     const route = element as RouteItem;
-    return Promise.resolve(route.children || []);
+    // Route handlers list their HTTP methods, intercepting routes their counterpart, before any nested routes
+    const methodItems = (route.methods || []).map(handler => new RouteMethodItem(handler, route.filePath));
+    const linkItems = [
+      ...(route.interceptTarget?.filePath
+        ? [new RouteLinkItem(`Intercepts ${route.interceptTarget.path}`, route.interceptTarget.filePath, route.id, 'arrow-right')]
+        : []),
+      ...(route.interceptedBy || []).map(filePath => new RouteLinkItem('Intercepted by', filePath, route.id, 'arrow-left'))
+    ];
+    // Colocated files sit in one collapsed node after the nested routes
+    const colocatedItems = (route.colocatedFiles || []).length > 0 ? [this.buildColocatedGroup(route)] : [];
+    return Promise.resolve([...methodItems, ...linkItems, ...(route.children || []), ...colocatedItems]);
+  }
+
+  /**
+   * Nest a route's colocated files by folder below a single "Colocated" node
+   */
+  private buildColocatedGroup(route: RouteItem): ColocatedFolderItem {
+    const build = (entries: { parts: string[]; file: ColocatedFile }[], idPath: string): vscode.TreeItem[] => {
+      const folders = new Map<string, { parts: string[]; file: ColocatedFile }[]>();
+      const fileItems: vscode.TreeItem[] = [];
+      for (const entry of entries) {
+        if (entry.parts.length > 1) {
+          folders.set(entry.parts[0], [...(folders.get(entry.parts[0]) || []), { parts: entry.parts.slice(1), file: entry.file }]);
+        } else {
+          fileItems.push(new ColocatedFileItem(entry.parts[0], entry.file.filePath, `${idPath}/${entry.parts[0]}`));
+        }
+      }
+
+      const folderItems = [...folders.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, children]) => new ColocatedFolderItem(name, build(children, `${idPath}/${name}`), `${idPath}/${name}`, isPrivateSegment(name)));
+      fileItems.sort((a, b) => String(a.label).localeCompare(String(b.label)));
+      return [...folderItems, ...fileItems];
+    };
+
+    // Paths relative to the route's folder, e.g. _components/Button.tsx
+    const entries = route.colocatedFiles.map(file => ({
+      parts: [...file.segments.slice(route.segments.length), path.basename(file.filePath)],
+      file
+    }));
+    const idPath = `${route.id}:colocated`;
+    return new ColocatedFolderItem('Colocated', build(entries, idPath), idPath, false);
+  }
+
+  /**
+   * Read the HTTP methods exported by each route handler
+   */
+  private async loadRouteMethods(routes: RouteItem[]): Promise<void> {
+    for (const item of routes) {
+      if (item.fileType === RouteFileType.Route) {
+        item.setMethods(await loadRouteHandlerMethods(item.filePath));
+      }
+      if (item.children) {
+        await this.loadRouteMethods(item.children);
+      }
+    }
+  }
+
+  /**
+   * Annotate routes with the problems affecting their files
+   */
+  private markRouteProblems(routes: RouteItem[], problems: RouteProblem[]): void {
+    if (problems.length === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      for (const problem of problems) {
+        if (!problem.filePaths.includes(item.filePath)) {
+          continue;
+        }
+        if (problem.kind === RouteProblemKind.RouterConflict) {
+          // URL also served by the other router
+          problem.filePaths.filter(filePath => filePath !== item.filePath).forEach(filePath => item.addConflict(filePath));
+        } else {
+          item.addProblem(problem.message);
+        }
+      }
+    });
   }
 
-  /** Build root items with optional categories */
+  /**
+   * Annotate routes with their effective segment config (inherited from layouts)
+   */
+  private async markSegmentConfigs(routes: RouteItem[], files: AppRouterFile[]): Promise<void> {
+    const configs = new Map<string, RouteSegmentConfig>();
+    for (const file of files) {
+      if (file.fileType === RouteFileType.Page || file.fileType === RouteFileType.Layout || file.fileType === RouteFileType.Route) {
+        configs.set(file.filePath, await loadSegmentConfig(file.filePath));
+      }
+    }
+
+    const resolved = resolveSegmentConfigs(files, configs);
+    if (resolved.size === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      const segmentConfig = resolved.get(item.filePath);
+      if (segmentConfig) {
+        item.setSegmentConfig(segmentConfig);
+      }
+    });
+  }
+
+  /**
+   * Annotate layouts with the parallel slots they render
+   */
+  private markSlotMatrices(routes: RouteItem[], files: AppRouterFile[]): void {
+    const matrices = new Map(buildSlotMatrices(files).map(matrix => [matrix.layout.filePath, matrix]));
+    if (matrices.size === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      const matrix = matrices.get(item.filePath);
+      if (matrix) {
+        item.setSlotMatrix(matrix);
+      }
+    });
+  }
+
+  /**
+   * Link intercepting pages and the pages they intercept, both ways
+   */
+  private markInterceptingRoutes(routes: RouteItem[], files: AppRouterFile[]): void {
+    const intercepting = resolveInterceptingRoutes(files);
+    if (intercepting.length === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      for (const route of intercepting) {
+        if (route.source.filePath === item.filePath) {
+          item.setInterceptTarget(route.marker, route.targetPath, route.target?.filePath);
+        } else if (route.target?.filePath === item.filePath) {
+          item.addInterceptor(route.source.filePath);
+        }
+      }
+    });
+  }
+
+  /**
+   * Classify route files as Server or Client Components and find their client boundaries
+   */
+  private async markComponents(routes: RouteItem[], files: AppRouterFile[], projectRoot: string): Promise<void> {
+    const classifications = await classifyComponents(files, projectRoot);
+    if (classifications.size === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      const component = classifications.get(item.filePath);
+      if (component) {
+        item.setComponent(component);
+      }
+    });
+  }
+
+  /**
+   * Attach generateStaticParams exports and the param sets they prebuild
+   */
+  private async markStaticParams(routes: RouteItem[], files: AppRouterFile[], projectRoot: string): Promise<void> {
+    const staticParams = await collectStaticParams(files, projectRoot);
+    if (staticParams.size === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      const found = staticParams.get(item.filePath);
+      if (found) {
+        item.setStaticParams(found);
+      }
+    });
+  }
+
+  /**
+   * Attach how the last `next build` rendered each page and route handler, when the app has been built
+   */
+  private async markBuildOutput(routes: RouteItem[], files: AppRouterFile[], projectRoot: string, distDir: string): Promise<void> {
+    const output = await loadBuildOutput(projectRoot, distDir);
+    if (!output) {
+      return;
+    }
+
+    const buildInfo = await collectBuildInfo(output, files);
+    forEachRouteItem(routes, item => {
+      const found = buildInfo.get(item.filePath);
+      if (found) {
+        item.setBuildInfo(found);
+      }
+    });
+  }
+
+  /**
+   * Find the hrefs in the app's source files and the routes they resolve to
+   */
+  private async indexReferences(app: NextjsApp, files: AppRouterFile[]): Promise<RouteReference[]> {
+    try {
+      const sourceFiles = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(app.projectRoot, SOURCE_FILE_GLOB),
+        new vscode.RelativePattern(app.projectRoot, SOURCE_EXCLUDE_GLOB)
+      );
+      // Files of nested apps link to their own routes
+      const ownFiles = sourceFiles
+        .map(uri => uri.fsPath)
+        .filter(filePath => this.getAppForFile(filePath)?.projectRoot === app.projectRoot)
+        .sort();
+      return await collectRouteReferences(ownFiles, files);
+    } catch (error) {
+      console.error('Failed to index route references:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Attach to each page and route handler the references resolving to it
+   */
+  private markReferences(routes: RouteItem[], references: RouteReference[]): void {
+    const byTarget = new Map<string, RouteReference[]>();
+    for (const reference of references) {
+      for (const target of reference.targets) {
+        byTarget.set(target, [...(byTarget.get(target) || []), reference]);
+      }
+    }
+
+    forEachRouteItem(routes, item => {
+      if (item.fileType === RouteFileType.Page || item.fileType === RouteFileType.Route) {
+        item.setReferences(byTarget.get(item.filePath) || []);
+      }
+    });
+  }
+
+  /**
+   * Match indexed hrefs against the current route files
+   */
+  private retargetReferences(references: RouteReference[], files: AppRouterFile[]): RouteReference[] {
+    return references.map(reference => ({ ...reference, targets: matchHref(reference.href, files).map(file => file.filePath) }));
+  }
+
+  /**
+   * Re-index route references once changes settle, optionally queueing a changed source file
+   */
+  private scheduleReferenceIndex(filePath?: string): void {
+    if (filePath) {
+      this.pendingReferenceFiles.add(filePath);
+    }
+    if (this.referenceTimer) {
+      clearTimeout(this.referenceTimer);
+    }
+    this.referenceTimer = setTimeout(() => {
+      this.referenceTimer = undefined;
+      this.startReferenceIndex();
+    }, REFERENCE_INDEX_DELAY);
+  }
+
+  /**
+   * Keep a single reference index run in flight; changes arriving meanwhile trigger one more run
+   */
+  private startReferenceIndex(): void {
+    if (this.referenceRun) {
+      this.referenceRerun = true;
+      return;
+    }
+
+    this.referenceRun = this.refreshReferences()
+      .catch(error => console.error('Failed to refresh route references:', error))
+      .finally(() => {
+        this.referenceRun = undefined;
+        if (this.referenceRerun) {
+          this.referenceRerun = false;
+          this.startReferenceIndex();
+        }
+      });
+  }
+
+  /**
+   * Update route references without rescanning routes: apps not indexed yet are indexed in full,
+   * the others only re-parse the source files queued since the last run
+   */
+  private async refreshReferences(): Promise<void> {
+    const changedFiles = [...this.pendingReferenceFiles];
+    this.pendingReferenceFiles.clear();
+    let changed = false;
+
+    for (const app of [...this.apps]) {
+      const state = this.appStates.find(appState => appState.app.projectRoot === app.projectRoot);
+      if (!state) {
+        continue;
+      }
+
+      let references: RouteReference[];
+      if (!this.indexedApps.has(app.projectRoot)) {
+        references = await this.indexReferences(app, [...state.files, ...state.pagesFiles]);
+        this.indexedApps.add(app.projectRoot);
+      } else {
+        const appFiles = changedFiles.filter(filePath => this.getAppForFile(filePath)?.projectRoot === app.projectRoot);
+        if (appFiles.length === 0) {
+          continue;
+        }
+        const existingFiles: string[] = [];
+        for (const filePath of appFiles) {
+          if (await this.fileExists(filePath)) {
+            existingFiles.push(filePath);
+          }
+        }
+        references = [
+          ...state.references.filter(reference => !appFiles.includes(reference.filePath)),
+          ...await collectRouteReferences(existingFiles, [...state.files, ...state.pagesFiles])
+        ].sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line || a.character - b.character);
+      }
+
+      // Routes may have been rescanned while files were read
+      const current = this.appStates.find(appState => appState.app.projectRoot === app.projectRoot);
+      if (!current) {
+        continue;
+      }
+      const routeFiles = [...current.files, ...current.pagesFiles];
+      current.references = current === state ? references : this.retargetReferences(references, routeFiles);
+      current.deadLinks = await findDeadLinks(current.references, routeFiles, current.nextConfig, app.projectRoot);
+      this.markReferences(current.routes, current.references);
+      this.markReferences(current.filteredRoutes, current.references);
+      changed = true;
+    }
+
+    if (changed) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * Hang components, hooks, tests and private folders under the route they sit next to
+   */
+  private markColocatedFiles(routes: RouteItem[], files: AppRouterFile[], colocatedFiles: ColocatedFile[]): void {
+    const assigned = assignColocatedFiles(files, colocatedFiles);
+    if (assigned.size === 0) {
+      return;
+    }
+
+    forEachRouteItem(routes, item => {
+      const colocated = assigned.get(item.filePath);
+      if (colocated) {
+        item.setColocatedFiles(colocated);
+      }
+    });
+  }
+
+  /**
+   * Annotate pages and route handlers the middleware runs on
+   */
+  private markMiddlewareRoutes(routes: RouteItem[], middleware: MiddlewareInfo): void {
+    forEachRouteItem(routes, item => {
+      if (item.fileType === RouteFileType.Page || item.fileType === RouteFileType.Route) {
+        const matcher = findMiddlewareMatcher(item.segments, middleware);
+        if (matcher) {
+          item.setMiddleware(matcher.source, matcher.conditional);
+        }
+      }
+    });
+  }
+
+  /**
+   * Combine per-app routes into the workspace-wide lists
+   */
+  private syncCombinedRoutes(): void {
+    this.allFiles = this.appStates.flatMap(state => state.files);
+    this.routes = this.appStates.flatMap(state => state.routes);
+    this.filteredRoutes = this.appStates.flatMap(state => state.filteredRoutes);
+  }
+
+  /** Build root items: one node per app when several apps exist, otherwise the grouped routes */
   private getRootItems(): vscode.TreeItem[] {
+    if (this.appStates.length <= 1) {
+      return this.getGroupedItems(this.filteredRoutes);
+    }
+
+    return this.appStates.map(state => {
+      const item = new vscode.TreeItem(state.app.name, vscode.TreeItemCollapsibleState.Expanded);
+      (item as any).categoryChildren = this.getGroupedItems(state.filteredRoutes);
+      item.iconPath = new vscode.ThemeIcon('root-folder');
+      item.description = this.getHostUrlForApp(state.app);
+      item.contextValue = this.appContext;
+      item.tooltip = `${state.app.projectRoot}\n${this.getHostUrlForApp(state.app)}`;
+      return item;
+    });
+  }
+
+  /** Group routes into categories when enabled */
+  private getGroupedItems(routes: RouteItem[]): vscode.TreeItem[] {
     if (!this.config.categorizeRoot) {
-      return this.filteredRoutes;
+      return routes;
     }
     
     const categories: Record<string, RouteItem[]> = {};
     const add = (group: string, item: RouteItem) => { (categories[group] ||= []).push(item); };
-    for (const r of this.filteredRoutes) {
+    for (const r of routes) {
+      if (r.router === RouterType.Pages) {
+        add('PAGES ROUTER', r);
+        continue;
+      }
       switch (r.fileType) {
         case RouteFileType.Page: add('PAGES', r); break;
         case RouteFileType.Layout: add('LAYOUTS', r); break;
@@ -242,6 +819,16 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
         case RouteFileType.NotFound: add('ERRORS', r); break;
         case RouteFileType.Loading: add('LOADING', r); break;
         case RouteFileType.Template: add('TEMPLATES', r); break;
+        case RouteFileType.Redirect:
+        case RouteFileType.Rewrite: add('REDIRECTS & REWRITES', r); break;
+        case RouteFileType.Middleware: add('MIDDLEWARE', r); break;
+        case RouteFileType.OpenGraphImage:
+        case RouteFileType.TwitterImage:
+        case RouteFileType.Icon:
+        case RouteFileType.AppleIcon:
+        case RouteFileType.Sitemap:
+        case RouteFileType.Robots:
+        case RouteFileType.Manifest: add('METADATA', r); break;
         default: add('OTHERS', r); break;
       }
     }
@@ -298,15 +885,8 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
     const flatten = (items: RouteItem[], depth: number = 0) => {
       for (const item of items) {
         // Create a copy with modified label to show depth
-        const flatItem = new RouteItem(
-          item.id,
-          this.config.viewType === 'flat' ? '  '.repeat(depth) + item.label : item.label as string,
-          item.path,
-          item.filePath,
-          item.fileType,
-          item.pattern,
-          item.segments,
-          item.parentId
+        const flatItem = item.cloneWith(
+          this.config.viewType === 'flat' ? '  '.repeat(depth) + item.label : item.label as string
         );
         
         flattened.push(flatItem);
@@ -341,11 +921,10 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
   public applySearch(query: string): void {
     this.searchQuery = query.toLowerCase().trim();
     
-    if (!this.searchQuery) {
-      this.filteredRoutes = this.routes;
-    } else {
-      this.filteredRoutes = this.filterRoutes(this.routes, this.searchQuery);
+    for (const state of this.appStates) {
+      state.filteredRoutes = this.searchQuery ? this.filterRoutes(state.routes, this.searchQuery) : state.routes;
     }
+    this.syncCombinedRoutes();
     
     this._onDidChangeTreeData.fire();
   }
@@ -359,6 +938,9 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
       return routes;
     }
 
+    // `method:POST` style filters narrow the text match
+    const { text, filters } = parseRouteSearchQuery(query);
+
     const filtered: RouteItem[] = [];
     
     for (const route of routes) {
@@ -366,11 +948,12 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
       let filteredChildren: RouteItem[] = [];
       
       // Check if route matches search
-      const matchesSearch = 
-        (route.label as string).toLowerCase().includes(query) ||
-        route.path.toLowerCase().includes(query) ||
-        route.filePath.toLowerCase().includes(query) ||
-        route.fileType.toLowerCase().includes(query);
+      const matchesText = 
+        (route.label as string).toLowerCase().includes(text) ||
+        route.path.toLowerCase().includes(text) ||
+        route.filePath.toLowerCase().includes(text) ||
+        route.fileType.toLowerCase().includes(text);
+      const matchesSearch = matchesText && matchesRouteFilters(route, filters);
       
       if (matchesSearch) {
         includeRoute = true;
@@ -385,15 +968,8 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
       }
       
       if (includeRoute) {
-        const filteredRoute = new RouteItem(
-          route.id,
+        const filteredRoute = route.cloneWith(
           route.label as string,
-          route.path,
-          route.filePath,
-          route.fileType,
-          route.pattern,
-          route.segments,
-          route.parentId,
           filteredChildren.length > 0 ? filteredChildren : undefined
         );
         
@@ -488,10 +1064,127 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
   }
 
   /**
-   * Get app directory path
+   * Get app directory path of the first app
    */
   public getAppDirectory(): string | null {
-    return this.appDirectory;
+    return this.apps.length > 0 ? this.apps[0].appDirectory : null;
+  }
+
+  /**
+   * Get route definition problems across all apps
+   */
+  public getRouteProblems(): RouteProblem[] {
+    return this.appStates.flatMap(state => state.problems);
+  }
+
+  /**
+   * Get every discovered Next.js app
+   */
+  public getApps(): NextjsApp[] {
+    return [...this.apps];
+  }
+
+  /**
+   * Get the routes of a single app
+   */
+  public getRoutesForApp(app: NextjsApp): RouteItem[] {
+    return this.appStates.find(state => state.app.projectRoot === app.projectRoot)?.routes || [];
+  }
+
+  /**
+   * Find the app owning a file (deepest project root containing it)
+   */
+  public getAppForFile(filePath: string): NextjsApp | undefined {
+    return this.apps
+      .filter(app => filePath === app.projectRoot || filePath.startsWith(app.projectRoot + path.sep))
+      .sort((a, b) => b.projectRoot.length - a.projectRoot.length)[0];
+  }
+
+  /**
+   * Find the app whose host URL serves the given URL (same protocol, host and port)
+   */
+  public getAppForUrl(url: string): NextjsApp | undefined {
+    const target = parseUrl(url);
+    if (!target.host) {
+      return undefined;
+    }
+
+    return this.apps.find(app => {
+      const base = parseUrl(this.getHostUrlForApp(app));
+      return base.host === target.host && base.port === target.port && base.protocol === target.protocol;
+    });
+  }
+
+  /**
+   * Get the host URL for an app: explicit appHostUrls entry, then the dev script
+   * port in multi-app workspaces, then the global hostUrl
+   */
+  public getHostUrlForApp(app: NextjsApp): string {
+    const configured = this.config.appHostUrls?.[app.name];
+    if (configured) {
+      return configured;
+    }
+
+    if (this.apps.length > 1 && app.devPort) {
+      return `http://localhost:${app.devPort}`;
+    }
+
+    return this.config.hostUrl || `http://localhost:${app.devPort || this.config.port}`;
+  }
+
+  /**
+   * Get the host URL for the app owning a file
+   */
+  public getHostUrlForFile(filePath: string): string {
+    const app = this.getAppForFile(filePath);
+    return app ? this.getHostUrlForApp(app) : this.config.hostUrl || `http://localhost:${this.config.port}`;
+  }
+
+  /**
+   * Get the scanned App Router files of the app owning a file
+   */
+  public getAppRouterFilesForFile(filePath: string): AppRouterFile[] {
+    const app = this.getAppForFile(filePath);
+    const state = app && this.appStates.find(appState => appState.app.projectRoot === app.projectRoot);
+    return state ? state.files : [];
+  }
+
+  /**
+   * Get the hrefs resolving to a page or route handler
+   */
+  public getRouteReferences(filePath: string): RouteReference[] {
+    const state = this.appStates.find(appState => appState.app.projectRoot === this.getAppForFile(filePath)?.projectRoot);
+    return (state?.references || []).filter(reference => reference.targets.includes(filePath));
+  }
+
+  /**
+   * Get the internal hrefs that no route serves, across all apps
+   */
+  public getDeadLinks(): RouteReference[] {
+    return this.appStates.flatMap(state => state.deadLinks);
+  }
+
+  /**
+   * Get the parsed next.config of the app owning a file
+   */
+  public getNextConfigForFile(filePath: string): NextConfigInfo {
+    const app = this.getAppForFile(filePath);
+    const state = app && this.appStates.find(appState => appState.app.projectRoot === app.projectRoot);
+    return state ? state.nextConfig : getDefaultNextConfig();
+  }
+
+  /**
+   * Get the path a route is served at, with the app's basePath and trailingSlash applied
+   */
+  public getPublicPath(routePath: string, filePath: string): string {
+    return applyNextConfigToPath(routePath, this.getNextConfigForFile(filePath));
+  }
+
+  /**
+   * Get the full browser URL of a route in the app owning its file
+   */
+  public getRouteUrl(routePath: string, filePath: string): string {
+    return buildRouteUrl(routePath, this.getHostUrlForFile(filePath), undefined, this.getNextConfigForFile(filePath));
   }
 
   /**
@@ -510,8 +1203,9 @@ export class NextjsRoutesProvider implements vscode.TreeDataProvider<vscode.Tree
    * Dispose resources
    */
   public dispose(): void {
-    if (this.fileWatcher) {
-      this.fileWatcher.dispose();
+    this.disposeFileWatchers();
+    if (this.referenceTimer) {
+      clearTimeout(this.referenceTimer);
     }
   }
 }
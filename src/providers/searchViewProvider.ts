@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import { NextjsRoutesProvider } from './routesProvider';
 import { RouteItem } from '../models';
-import { RouteFileType } from '../constants';
+import { RouteFileType, RouterType, METADATA_FILE_TYPES, ComponentType } from '../constants';
 import { RouteParametersProvider } from './routeParametersProvider';
+import { matchRoutes, isValidUrl, parseRouteSearchQuery, matchesRouteFilters, formatBuildSize } from '../utils';
 
 interface SearchResult {
   query: string;
@@ -13,6 +14,7 @@ interface SearchResult {
       count: number;
       routes: RouteItem[];
       expanded: boolean;
+      app?: string;
     };
   };
 }
@@ -55,13 +57,28 @@ export class NextjsSearchViewProvider implements vscode.WebviewViewProvider {
           this.toggleCategory(msg.category);
           break;
         case 'open-route':
-          this.openRoute(msg.filePath);
+          this.openRoute(msg.filePath, msg.line);
           break;
         case 'open-file':
           this.openRoute(msg.filePath);
           break;
         case 'open-browser':
-          this.openInBrowser(msg.path);
+          this.openInBrowser(msg.path, msg.filePath);
+          break;
+        case 'send-request':
+          vscode.commands.executeCommand('nextjsRadar.sendRequest', { filePath: msg.filePath, method: msg.method });
+          break;
+        case 'show-anatomy':
+          vscode.commands.executeCommand('nextjsRadar.showRouteAnatomy', { filePath: msg.filePath });
+          break;
+        case 'find-references':
+          vscode.commands.executeCommand('nextjsRadar.findRouteReferences', { filePath: msg.filePath });
+          break;
+        case 'rename-segment':
+          vscode.commands.executeCommand('nextjsRadar.renameRouteSegment', { filePath: msg.filePath });
+          break;
+        case 'new-route':
+          vscode.commands.executeCommand('nextjsRadar.newRoute', { filePath: msg.filePath });
           break;
       }
     }, undefined, this.disposables);
@@ -72,45 +89,84 @@ export class NextjsSearchViewProvider implements vscode.WebviewViewProvider {
     const flatRoutes = this.flattenRoutes(allRoutes);
     
     let matchedRoutes: RouteItem[];
+    // `method:POST` style filters are applied on top of the text match
+    const { text, filters } = parseRouteSearchQuery(query || '');
     
       if (!query || query.trim() === "") {
         matchedRoutes = flatRoutes;
       } else {
         // Filter routes based on query
         matchedRoutes = flatRoutes.filter(route => 
-          (route.label as string).toLowerCase().includes(query.toLowerCase()) ||
-          route.path.toLowerCase().includes(query.toLowerCase()) ||
-          route.filePath.toLowerCase().includes(query.toLowerCase()) ||
-          route.fileType.toLowerCase().includes(query.toLowerCase())
+          ((route.label as string).toLowerCase().includes(text.toLowerCase()) ||
+          route.path.toLowerCase().includes(text.toLowerCase()) ||
+          route.filePath.toLowerCase().includes(text.toLowerCase()) ||
+          route.fileType.toLowerCase().includes(text.toLowerCase())) &&
+          matchesRouteFilters(route, filters)
         );
       }
 
-    // Group by file type
+    // Group by file type, with routes answering a pasted URL or path listed first
     const categories: SearchResult['categories'] = {};
+    const urlMatches = this.isUrlQuery(text)
+      ? matchRoutes(text.trim(), flatRoutes)
+        .map(candidate => candidate.route)
+        .filter(route => matchesRouteFilters(route, filters))
+      : [];
+    
+    if (urlMatches.length > 0) {
+      categories['URL MATCHES'] = {
+        name: 'URL MATCHES',
+        count: urlMatches.length,
+        routes: urlMatches,
+        expanded: true
+      };
+    }
+    
+    // Routes Next.js would reject at build time
+    const problemRoutes = matchedRoutes.filter(route => route.problems.length > 0 || route.conflicts.length > 0);
+    if (problemRoutes.length > 0) {
+      categories['PROBLEMS'] = {
+        name: 'PROBLEMS',
+        count: problemRoutes.length,
+        routes: problemRoutes,
+        expanded: true
+      };
+    }
+    
+    // With several apps, categories are nested under their app
+    const multiApp = this.routesProvider.getApps().length > 1;
     
     for (const route of matchedRoutes) {
-      const categoryName = this.getCategoryName(route.fileType);
-      if (!categories[categoryName]) {
-        categories[categoryName] = {
+      const categoryName = route.router === RouterType.Pages ? 'PAGES ROUTER' : this.getCategoryName(route.fileType);
+      const appName = multiApp ? this.routesProvider.getAppForFile(route.filePath)?.name : undefined;
+      const categoryKey = appName ? `${appName}/${categoryName}` : categoryName;
+      if (!categories[categoryKey]) {
+        categories[categoryKey] = {
           name: categoryName,
           count: 0,
           routes: [],
-          expanded: true
+          expanded: true,
+          app: appName
         };
       }
-      categories[categoryName].routes.push(route);
-      categories[categoryName].count++;
+      categories[categoryKey].routes.push(route);
+      categories[categoryKey].count++;
     }
 
     this.currentResults = {
       query: query || '',
-      totalResults: matchedRoutes.length,
+      totalResults: new Set([...urlMatches, ...matchedRoutes]).size,
       categories
     };
 
     this.updateView();
   }
 
+  private isUrlQuery(query: string): boolean {
+    const trimmed = query.trim();
+    return trimmed.startsWith('/') || isValidUrl(trimmed);
+  }
+
   private clearSearch(): void {
     this.performSearch(''); // Show all routes when clearing search
   }
@@ -122,22 +178,27 @@ export class NextjsSearchViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private async openRoute(filePath: string): Promise<void> {
+  private async openRoute(filePath: string, line?: number): Promise<void> {
     try {
       const document = await vscode.workspace.openTextDocument(filePath);
-      await vscode.window.showTextDocument(document);
+      // Redirects and rewrites open next.config at their definition
+      const selection = typeof line === 'number' ? new vscode.Range(line, 0, line, 0) : undefined;
+      await vscode.window.showTextDocument(document, { selection });
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to open file: ${error}`);
     }
   }
 
-  private async openInBrowser(routePath: string): Promise<void> {
+  private async openInBrowser(routePath: string, filePath: string): Promise<void> {
     try {
-      const config = this.routesProvider.getConfiguration();
-      
       // Replace route parameters if available
       let finalPath = routePath;
       if (this.routeParametersProvider) {
+        // Routes with generateStaticParams values offer their prebuilt paths first
+        const prebuilt = this.routesProvider.getRouteByFilePath(filePath)?.staticParams?.values || [];
+        if (prebuilt.length > 0 && !(await this.routeParametersProvider.pickStaticParams(routePath, prebuilt))) {
+          return;
+        }
         finalPath = this.routeParametersProvider.replaceParametersInPath(routePath);
         
         // Check for missing parameters
@@ -153,9 +214,8 @@ export class NextjsSearchViewProvider implements vscode.WebviewViewProvider {
         }
       }
       
-      // Use configurable host URL or fall back to localhost with port
-      const baseUrl = config.hostUrl || `http://localhost:${config.port}`;
-      const url = `${baseUrl}${finalPath}`;
+      // Use the host URL, basePath and trailingSlash of the app owning the route
+      const url = this.routesProvider.getRouteUrl(finalPath, filePath);
       await vscode.env.openExternal(vscode.Uri.parse(url));
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to open in browser: ${error}`);
@@ -172,6 +232,16 @@ export class NextjsSearchViewProvider implements vscode.WebviewViewProvider {
       case RouteFileType.GlobalError:
       case RouteFileType.NotFound: return 'ERRORS';
       case RouteFileType.Template: return 'TEMPLATES';
+      case RouteFileType.Redirect:
+      case RouteFileType.Rewrite: return 'REDIRECTS & REWRITES';
+      case RouteFileType.Middleware: return 'MIDDLEWARE';
+      case RouteFileType.OpenGraphImage:
+      case RouteFileType.TwitterImage:
+      case RouteFileType.Icon:
+      case RouteFileType.AppleIcon:
+      case RouteFileType.Sitemap:
+      case RouteFileType.Robots:
+      case RouteFileType.Manifest: return 'METADATA';
       default: return 'OTHERS';
     }
   }
@@ -271,6 +341,14 @@ body {
   color: var(--vscode-descriptionForeground);
 }
 
+.app-header {
+  padding: 6px 4px 2px;
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: var(--vscode-descriptionForeground);
+}
+
 .category {
   margin-bottom: 2px;
 }
@@ -309,6 +387,7 @@ body {
 
 .route-item {
   display: flex;
+  flex-wrap: wrap;
   align-items: center;
   padding: 2px 4px;
   border-radius: 3px;
@@ -348,6 +427,57 @@ body {
   font-size: 11px;
 }
 
+.method-badge {
+  cursor: pointer;
+  margin-right: 4px;
+  padding: 0 3px;
+  border-radius: 3px;
+  font-size: 9px;
+  font-weight: bold;
+  color: var(--vscode-editor-background);
+  background: var(--vscode-charts-blue);
+}
+
+.method-badge.method-get { background: var(--vscode-charts-green); }
+.method-badge.method-post { background: var(--vscode-charts-yellow); }
+.method-badge.method-put,
+.method-badge.method-patch { background: var(--vscode-charts-orange); }
+.method-badge.method-delete { background: var(--vscode-charts-red); }
+
+.route-badge {
+  margin-right: 6px;
+  padding: 0 4px;
+  border-radius: 3px;
+  font-size: 10px;
+  background: var(--vscode-badge-background);
+  color: var(--vscode-badge-foreground);
+}
+
+.intercept-badge[data-filepath] {
+  cursor: pointer;
+}
+
+.slot-badge.slot-missing {
+  background: var(--vscode-editorWarning-foreground);
+}
+
+.component-badge.component-client {
+  background: var(--vscode-charts-blue);
+  color: var(--vscode-editor-background);
+}
+
+.build-badge.build-missing {
+  background: var(--vscode-editorWarning-foreground);
+}
+
+.route-problems {
+  order: 1;
+  flex-basis: 100%;
+  margin: 0 0 2px 22px;
+  font-size: 11px;
+  color: var(--vscode-errorForeground);
+}
+
 .route-actions {
   opacity: 0;
   display: flex;
@@ -408,7 +538,7 @@ body {
         id="search" 
         class="search-input" 
         type="text" 
-        placeholder="Search routes, paths, files..." 
+        placeholder="Search routes, paths, files, method:POST, runtime:edge, component:client, build:dynamic..." 
         value="${this.currentResults?.query || ''}"
       />
       <div class="clear-btn" id="clear" title="Clear Search">×</div>
@@ -475,30 +605,66 @@ function getResultsHtml(currentResults) {
   }
 
   const categoriesHtml = Object.entries(currentResults.categories)
-    .map(([key, category]) => {
+    .map(([key, category], index, entries) => {
+      const appHeader = category.app && (index === 0 || entries[index - 1][1].app !== category.app)
+        ? \`<div class="app-header">\${category.app}</div>\`
+        : '';
       const expandIcon = category.expanded ? '▼' : '▶';
       const routesHtml = category.expanded ? 
         category.routes.map(route => \`
           <div class="route-item">
-            <div class="route-content" data-filepath="\${route.filePath}">
+            <div class="route-content" data-filepath="\${route.filePath}"\${route.definitionLine !== undefined ? \` data-line="\${route.definitionLine}"\` : ''}>
               <span class="route-icon">\${getFileIcon(route.fileType)}</span>
               <span class="route-path">\${route.path}</span>
-              <span class="route-file">\${getFileName(route.filePath)}</span>
+              \${getMethodBadgesHtml(route)}
+              \${getSegmentConfigBadgesHtml(route)}
+              \${getMiddlewareBadgeHtml(route)}
+              \${getSlotBadgeHtml(route)}
+              \${getInterceptBadgeHtml(route)}
+              \${getComponentBadgeHtml(route)}
+              \${getBuildBadgeHtml(route)}
+              <span class="route-file">\${route.destination ? '→ ' + route.destination : getFileName(route.filePath)}</span>
             </div>
+            \${key === 'PROBLEMS' ? getProblemsHtml(route) : ''}
             <div class="route-actions">
               <button class="action-btn file-btn" data-action="open-file" data-filepath="\${route.filePath}" title="Open File">
                 📄
               </button>
               \${canOpenInBrowser(route.fileType) ? \`
-                <button class="action-btn browser-btn" data-action="open-browser" data-path="\${route.path}" title="Open in Browser">
+                <button class="action-btn browser-btn" data-action="open-browser" data-path="\${route.path}" data-filepath="\${route.filePath}" title="Open in Browser">
                   🌐
                 </button>
               \` : ''}
+              \${route.fileType === 'route' ? \`
+                <button class="action-btn request-btn" data-action="send-request" data-filepath="\${route.filePath}" title="Send Request">
+                  🚀
+                </button>
+              \` : ''}
+              \${route.fileType === 'page' && route.router !== 'pages' ? \`
+                <button class="action-btn anatomy-btn" data-action="show-anatomy" data-filepath="\${route.filePath}" title="Show Route Anatomy">
+                  🧱
+                </button>
+              \` : ''}
+              \${(route.references || []).length > 0 ? \`
+                <button class="action-btn references-btn" data-action="find-references" data-filepath="\${route.filePath}" title="Find References (\${route.references.length})">
+                  🔗
+                </button>
+              \` : ''}
+              \${route.fileType === 'page' || route.fileType === 'route' ? \`
+                <button class="action-btn rename-btn" data-action="rename-segment" data-filepath="\${route.filePath}" title="Rename Route Segment">
+                  ✏️
+                </button>
+              \` : ''}
+              \${canCreateChildRoute(route) ? \`
+                <button class="action-btn new-route-btn" data-action="new-route" data-filepath="\${route.filePath}" title="New Route Here">
+                  ➕
+                </button>
+              \` : ''}
             </div>
           </div>
         \`).join('') : '';
 
-      return \`
+      return appHeader + \`
         <div class="category">
           <div class="category-header" data-category="\${key}">
             <span class="category-icon">\${expandIcon}</span>
@@ -534,16 +700,133 @@ function getFileIcon(fileType) {
     case 'global-error':
     case 'not-found': return '❌';
     case 'template': return '📝';
+    case 'redirect': return '↪️';
+    case 'rewrite': return '🔀';
+    case 'middleware': return '🛡';
+    case 'opengraph-image':
+    case 'twitter-image':
+    case 'icon':
+    case 'apple-icon': return '🖼️';
+    case 'sitemap': return '🗺️';
+    case 'robots': return '🤖';
+    case 'manifest': return '📋';
     default: return '📁';
   }
 }
 
+function getProblemsHtml(route) {
+  const messages = [
+    ...(route.problems || []),
+    ...(route.conflicts || []).map(conflict => 'Conflicts with ' + conflict)
+  ];
+  return \`<div class="route-problems">\${messages.map(message => \`<div>⛔ \${message}</div>\`).join('')}</div>\`;
+}
+
+function getMethodBadgesHtml(route) {
+  return (route.methods || [])
+    .map(handler => \`<span class="method-badge method-\${handler.method.toLowerCase()}" data-method="\${handler.method}" data-filepath="\${route.filePath}" title="Send \${handler.method} request">\${handler.method}</span>\`)
+    .join('');
+}
+
+function getSegmentConfigBadgesHtml(route) {
+  const values = route.segmentConfig ? route.segmentConfig.values : null;
+  if (!values) {
+    return '';
+  }
+  const title = Object.entries(values).map(([key, value]) => key + ': ' + JSON.stringify(value)).join('&#10;').replace(/"/g, '&quot;');
+  const badges = [];
+  if (values.runtime === 'edge') {
+    badges.push('⚡ edge');
+  }
+  if (values.dynamic && values.dynamic !== 'auto') {
+    badges.push(values.dynamic === 'force-static' ? '■ force-static' : '● ' + values.dynamic);
+  }
+  if (typeof values.revalidate === 'number') {
+    badges.push('⟳ ' + values.revalidate + 's');
+  }
+  return badges.map(badge => \`<span class="route-badge segment-badge" title="\${title}">\${badge}</span>\`).join('');
+}
+
+function getMiddlewareBadgeHtml(route) {
+  if (!route.middlewareMatcher) {
+    return '';
+  }
+  const title = 'Behind middleware: ' + route.middlewareMatcher + (route.middlewareConditional ? ' (conditional)' : '');
+  return \`<span class="route-badge middleware-badge" title="\${title}">🛡 middleware\${route.middlewareConditional ? '?' : ''}</span>\`;
+}
+
+function getSlotBadgeHtml(route) {
+  if (!route.slotMatrix) {
+    return '';
+  }
+  const slotName = name => name === 'children' ? name : '@' + name;
+  const title = route.slotMatrix.rows
+    .map(row => row.path + ': ' + row.cells.map(cell => slotName(cell.slot) + ' ' + (cell.kind === 'missing' ? '✗ 404' : cell.kind)).join(', '))
+    .join('&#10;');
+  const missing = route.slotMatrix.rows.some(row => row.cells.some(cell => cell.kind === 'missing'));
+  const slots = route.slotMatrix.slots.filter(slot => slot.name !== 'children').map(slot => slotName(slot.name)).join(' ');
+  return \`<span class="route-badge slot-badge\${missing ? ' slot-missing' : ''}" title="\${title}">⫴ \${slots}</span>\`;
+}
+
+function getInterceptBadgeHtml(route) {
+  const badges = [];
+  if (route.interceptTarget) {
+    const target = route.interceptTarget.filePath ? ' data-filepath="' + route.interceptTarget.filePath + '"' : '';
+    badges.push(\`<span class="route-badge intercept-badge"\${target} title="Intercepts \${route.interceptTarget.path} on soft navigation">↪ \${route.interceptTarget.marker} \${route.interceptTarget.path}</span>\`);
+  }
+  if (route.interceptedBy && route.interceptedBy.length > 0) {
+    const title = 'Intercepted on soft navigation by:&#10;' + route.interceptedBy.join('&#10;');
+    badges.push(\`<span class="route-badge intercept-badge" data-filepath="\${route.interceptedBy[0]}" title="\${title}">↩ intercepted</span>\`);
+  }
+  return badges.join('');
+}
+
+function getComponentBadgeHtml(route) {
+  if (!route.component) {
+    return '';
+  }
+  const badges = [];
+  if (route.component.type === 'client') {
+    badges.push('<span class="route-badge component-badge component-client" title="Client Component (\\'use client\\')">◑ client</span>');
+  } else if (route.component.clientBoundaries.length > 0) {
+    const title = 'Server Component rendering client modules:&#10;' + route.component.clientBoundaries.join('&#10;');
+    badges.push(\`<span class="route-badge component-badge" title="\${title}">◐ client boundary</span>\`);
+  }
+  if (route.component.hasServerActions) {
+    badges.push('<span class="route-badge component-badge" title="Defines Server Actions (\\'use server\\')">⇄ actions</span>');
+  }
+  return badges.join('');
+}
+
+function getBuildBadgeHtml(route) {
+  if (!route.build) {
+    return '';
+  }
+  const labels = { static: '○ static', ssg: '● SSG', isr: \`● ISR \${route.build.revalidate}s\`, dynamic: 'λ dynamic' };
+  if (route.build.renderMode === null) {
+    return '<span class="route-badge build-badge build-missing" title="Missing from the last build">✗ not built</span>';
+  }
+  const size = route.build.firstLoadJsBytes !== undefined ? \` · \${formatBuildSize(route.build.firstLoadJsBytes)}\` : '';
+  return \`<span class="route-badge build-badge" title="Last build">\${labels[route.build.renderMode]}\${size}</span>\`;
+}
+
+function formatBuildSize(bytes) {
+  if (bytes < 1000) {
+    return \`\${bytes} B\`;
+  }
+  return bytes < 1000 * 1000 ? \`\${(bytes / 1000).toFixed(1)} kB\` : \`\${(bytes / 1000 / 1000).toFixed(2)} MB\`;
+}
+
 function getFileName(filePath) {
   return filePath.split('/').pop() || filePath;
 }
 
 function canOpenInBrowser(fileType) {
-  return fileType === 'page' || fileType === 'route';
+  return ['page', 'route', 'redirect', 'rewrite', ...${JSON.stringify(METADATA_FILE_TYPES)}].includes(fileType);
+}
+
+function canCreateChildRoute(route) {
+  return route.router !== 'pages' && !['redirect', 'rewrite', 'middleware'].includes(route.fileType);
 }
 
 
@@ -573,16 +856,40 @@ document.addEventListener('click', (e) => {
       vscode.postMessage({ type: 'open-file', filePath });
     } else if (action === 'open-browser') {
       const path = btn.dataset.path;
-      vscode.postMessage({ type: 'open-browser', path });
+      const filePath = btn.dataset.filepath;
+      vscode.postMessage({ type: 'open-browser', path, filePath });
+    } else if (action === 'send-request') {
+      vscode.postMessage({ type: 'send-request', filePath: btn.dataset.filepath });
+    } else if (action === 'show-anatomy') {
+      vscode.postMessage({ type: 'show-anatomy', filePath: btn.dataset.filepath });
+    } else if (action === 'find-references') {
+      vscode.postMessage({ type: 'find-references', filePath: btn.dataset.filepath });
+    } else if (action === 'rename-segment') {
+      vscode.postMessage({ type: 'rename-segment', filePath: btn.dataset.filepath });
+    } else if (action === 'new-route') {
+      vscode.postMessage({ type: 'new-route', filePath: btn.dataset.filepath });
     }
     return;
   }
   
+  // Handle intercept badge click (open the linked page)
+  if (e.target.classList.contains('intercept-badge') && e.target.dataset.filepath) {
+    vscode.postMessage({ type: 'open-file', filePath: e.target.dataset.filepath });
+    return;
+  }
+  
+  // Handle method badge click (open the request runner with that method)
+  if (e.target.classList.contains('method-badge')) {
+    vscode.postMessage({ type: 'send-request', filePath: e.target.dataset.filepath, method: e.target.dataset.method });
+    return;
+  }
+  
   // Handle route content click (open file)
   if (e.target.classList.contains('route-content') || e.target.closest('.route-content')) {
     const content = e.target.classList.contains('route-content') ? e.target : e.target.closest('.route-content');
     const filePath = content.dataset.filepath;
-    vscode.postMessage({ type: 'open-route', filePath });
+    const line = content.dataset.line !== undefined ? Number(content.dataset.line) : undefined;
+    vscode.postMessage({ type: 'open-route', filePath, line });
   }
 });
 </script>
@@ -618,30 +925,66 @@ document.addEventListener('click', (e) => {
     }
 
     const categoriesHtml = Object.entries(this.currentResults.categories)
-      .map(([key, category]) => {
+      .map(([key, category], index, entries) => {
+        const appHeader = category.app && (index === 0 || entries[index - 1][1].app !== category.app)
+          ? `<div class="app-header">${category.app}</div>`
+          : '';
         const expandIcon = category.expanded ? '▼' : '▶';
         const routesHtml = category.expanded ? 
           category.routes.map(route => `
             <div class="route-item">
-              <div class="route-content" data-filepath="${route.filePath}">
+              <div class="route-content" data-filepath="${route.filePath}"${route.definitionLine !== undefined ? ` data-line="${route.definitionLine}"` : ''}>
                 <span class="route-icon">${this.getFileIcon(route.fileType)}</span>
                 <span class="route-path">${route.path}</span>
-                <span class="route-file">${this.getFileName(route.filePath)}</span>
+                ${this.getMethodBadgesHtml(route)}
+                ${this.getSegmentConfigBadgesHtml(route)}
+                ${this.getMiddlewareBadgeHtml(route)}
+                ${this.getSlotBadgeHtml(route)}
+                ${this.getInterceptBadgeHtml(route)}
+                ${this.getComponentBadgeHtml(route)}
+                ${this.getBuildBadgeHtml(route)}
+                <span class="route-file">${route.destination ? `→ ${route.destination}` : this.getFileName(route.filePath)}</span>
               </div>
+              ${key === 'PROBLEMS' ? this.getProblemsHtml(route) : ''}
               <div class="route-actions">
                 <button class="action-btn file-btn" data-action="open-file" data-filepath="${route.filePath}" title="Open File">
                   📄
                 </button>
                 ${this.canOpenInBrowser(route.fileType) ? `
-                  <button class="action-btn browser-btn" data-action="open-browser" data-path="${route.path}" title="Open in Browser">
+                  <button class="action-btn browser-btn" data-action="open-browser" data-path="${route.path}" data-filepath="${route.filePath}" title="Open in Browser">
                     🌐
                   </button>
                 ` : ''}
+                ${route.fileType === RouteFileType.Route ? `
+                  <button class="action-btn request-btn" data-action="send-request" data-filepath="${route.filePath}" title="Send Request">
+                    🚀
+                  </button>
+                ` : ''}
+                ${route.fileType === RouteFileType.Page && route.router === RouterType.App ? `
+                  <button class="action-btn anatomy-btn" data-action="show-anatomy" data-filepath="${route.filePath}" title="Show Route Anatomy">
+                    🧱
+                  </button>
+                ` : ''}
+                ${route.references.length > 0 ? `
+                  <button class="action-btn references-btn" data-action="find-references" data-filepath="${route.filePath}" title="Find References (${route.references.length})">
+                    🔗
+                  </button>
+                ` : ''}
+                ${route.fileType === RouteFileType.Page || route.fileType === RouteFileType.Route ? `
+                  <button class="action-btn rename-btn" data-action="rename-segment" data-filepath="${route.filePath}" title="Rename Route Segment">
+                    ✏️
+                  </button>
+                ` : ''}
+                ${this.canCreateChildRoute(route) ? `
+                  <button class="action-btn new-route-btn" data-action="new-route" data-filepath="${route.filePath}" title="New Route Here">
+                    ➕
+                  </button>
+                ` : ''}
               </div>
             </div>
           `).join('') : '';
 
-        return `
+        return appHeader + `
           <div class="category">
             <div class="category-header" data-category="${key}">
               <span class="category-icon">${expandIcon}</span>
@@ -677,17 +1020,126 @@ document.addEventListener('click', (e) => {
       case RouteFileType.GlobalError:
       case RouteFileType.NotFound: return '❌';
       case RouteFileType.Template: return '📝';
+      case RouteFileType.Redirect: return '↪️';
+      case RouteFileType.Rewrite: return '🔀';
+      case RouteFileType.Middleware: return '🛡';
+      case RouteFileType.OpenGraphImage:
+      case RouteFileType.TwitterImage:
+      case RouteFileType.Icon:
+      case RouteFileType.AppleIcon: return '🖼️';
+      case RouteFileType.Sitemap: return '🗺️';
+      case RouteFileType.Robots: return '🤖';
+      case RouteFileType.Manifest: return '📋';
       default: return '📁';
     }
   }
 
+  private getProblemsHtml(route: RouteItem): string {
+    const messages = [
+      ...route.problems,
+      ...route.conflicts.map(conflict => `Conflicts with ${conflict}`)
+    ];
+    return `<div class="route-problems">${messages.map(message => `<div>⛔ ${message}</div>`).join('')}</div>`;
+  }
+
+  private getMethodBadgesHtml(route: RouteItem): string {
+    return route.methods
+      .map(handler => `<span class="method-badge method-${handler.method.toLowerCase()}" data-method="${handler.method}" data-filepath="${route.filePath}" title="Send ${handler.method} request">${handler.method}</span>`)
+      .join('');
+  }
+
+  private getSegmentConfigBadgesHtml(route: RouteItem): string {
+    if (!route.segmentConfig) {
+      return '';
+    }
+    const title = Object.entries(route.segmentConfig.values)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+      .join('&#10;')
+      .replace(/"/g, '&quot;');
+    return route.getSegmentConfigBadges()
+      .map(badge => `<span class="route-badge segment-badge" title="${title}">${badge}</span>`)
+      .join('');
+  }
+
+  private getMiddlewareBadgeHtml(route: RouteItem): string {
+    if (!route.middlewareMatcher) {
+      return '';
+    }
+    const title = `Behind middleware: ${route.middlewareMatcher}${route.middlewareConditional ? ' (conditional)' : ''}`;
+    return `<span class="route-badge middleware-badge" title="${title}">🛡 middleware${route.middlewareConditional ? '?' : ''}</span>`;
+  }
+
+  private getSlotBadgeHtml(route: RouteItem): string {
+    if (!route.slotMatrix) {
+      return '';
+    }
+    const slotName = (name: string) => name === 'children' ? name : `@${name}`;
+    const title = route.slotMatrix.rows
+      .map(row => `${row.path}: ${row.cells.map(cell => `${slotName(cell.slot)} ${cell.kind === 'missing' ? '✗ 404' : cell.kind}`).join(', ')}`)
+      .join('&#10;');
+    const missing = route.getSlotsMissingDefault().length > 0;
+    const slots = route.slotMatrix.slots.filter(slot => slot.name !== 'children').map(slot => slotName(slot.name)).join(' ');
+    return `<span class="route-badge slot-badge${missing ? ' slot-missing' : ''}" title="${title}">⫴ ${slots}</span>`;
+  }
+
+  private getInterceptBadgeHtml(route: RouteItem): string {
+    const badges: string[] = [];
+    if (route.interceptTarget) {
+      const target = route.interceptTarget.filePath ? ` data-filepath="${route.interceptTarget.filePath}"` : '';
+      badges.push(`<span class="route-badge intercept-badge"${target} title="Intercepts ${route.interceptTarget.path} on soft navigation">↪ ${route.interceptTarget.marker} ${route.interceptTarget.path}</span>`);
+    }
+    if (route.interceptedBy.length > 0) {
+      const title = `Intercepted on soft navigation by:&#10;${route.interceptedBy.join('&#10;')}`;
+      badges.push(`<span class="route-badge intercept-badge" data-filepath="${route.interceptedBy[0]}" title="${title}">↩ intercepted</span>`);
+    }
+    return badges.join('');
+  }
+
+  private getComponentBadgeHtml(route: RouteItem): string {
+    if (!route.component) {
+      return '';
+    }
+    const badges: string[] = [];
+    if (route.component.type === ComponentType.Client) {
+      badges.push('<span class="route-badge component-badge component-client" title="Client Component (\'use client\')">◑ client</span>');
+    } else if (route.component.clientBoundaries.length > 0) {
+      const title = `Server Component rendering client modules:&#10;${route.component.clientBoundaries.join('&#10;')}`;
+      badges.push(`<span class="route-badge component-badge" title="${title}">◐ client boundary</span>`);
+    }
+    if (route.component.hasServerActions) {
+      badges.push('<span class="route-badge component-badge" title="Defines Server Actions (\'use server\')">⇄ actions</span>');
+    }
+    return badges.join('');
+  }
+
+  private getBuildBadgeHtml(route: RouteItem): string {
+    const badge = route.getBuildBadge();
+    if (!badge) {
+      return '';
+    }
+    if (route.build!.renderMode === null) {
+      return `<span class="route-badge build-badge build-missing" title="Missing from the last build">${badge}</span>`;
+    }
+    const size = route.build!.firstLoadJsBytes !== undefined ? ` · ${formatBuildSize(route.build!.firstLoadJsBytes)}` : '';
+    return `<span class="route-badge build-badge" title="Last build">${badge}${size}</span>`;
+  }
+
   private getFileName(filePath: string): string {
     return filePath.split('/').pop() || filePath;
   }
 
   private canOpenInBrowser(fileType: RouteFileType): boolean {
-    // Only pages and API routes can be opened in browser
-    return fileType === RouteFileType.Page || fileType === RouteFileType.Route;
+    // Only pages, API routes, metadata routes and config redirect/rewrite sources can be opened in browser
+    return fileType === RouteFileType.Page || fileType === RouteFileType.Route
+      || fileType === RouteFileType.Redirect || fileType === RouteFileType.Rewrite
+      || METADATA_FILE_TYPES.includes(fileType);
+  }
+
+  private canCreateChildRoute(route: RouteItem): boolean {
+    // New routes go next to App Router files; next.config entries and middleware have no folder
+    return route.router === RouterType.App
+      && route.fileType !== RouteFileType.Redirect && route.fileType !== RouteFileType.Rewrite
+      && route.fileType !== RouteFileType.Middleware;
   }
 
 
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { RouteLinkItem, ServerActionFileItem, ServerActionItem } from '../models';
+import { ServerAction, buildServerActionIndex } from '../utils';
+import { SOURCE_EXCLUDE_GLOB, SOURCE_FILE_GLOB } from '../constants';
+import { NextjsRoutesProvider } from './routesProvider';
+
+export class ServerActionsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  public static readonly viewId = 'nextjsRadar.serverActions';
+
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private actions: ServerAction[] = [];
+  private indexing: Promise<void> | null = null;
+  private stale = false;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private routesProvider: NextjsRoutesProvider
+  ) {
+    // Re-index when routes are rescanned, and when a source file is saved
+    this.disposables.push(this.routesProvider.onDidChangeTreeData(() => this.refresh()));
+    vscode.workspace.onDidSaveTextDocument(document => {
+      if (/\.(m|c)?[jt]sx?$/.test(document.uri.fsPath) && this.routesProvider.getAppForFile(document.uri.fsPath)) {
+        this.refresh();
+      }
+    }, this, context.subscriptions);
+  }
+
+  /**
+   * TreeDataProvider implementation: getTreeItem
+   */
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * TreeDataProvider implementation: getChildren
+   */
+  getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+    if (element instanceof ServerActionFileItem) {
+      return Promise.resolve(element.actions);
+    }
+    if (element instanceof ServerActionItem) {
+      return Promise.resolve(element.action.routes.map(route =>
+        new RouteLinkItem(route.routePath, route.filePath, element.id!, 'link')
+      ));
+    }
+    if (element) {
+      return Promise.resolve([]);
+    }
+
+    // One node per declaring file, in path order
+    const byFile = new Map<string, ServerAction[]>();
+    for (const action of this.actions) {
+      byFile.set(action.filePath, [...(byFile.get(action.filePath) || []), action]);
+    }
+    return Promise.resolve([...byFile.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([filePath, actions]) => new ServerActionFileItem(filePath, actions.map(action => new ServerActionItem(action)))));
+  }
+
+  /**
+   * Rebuild the index of every app; requests during a run trigger one more run after it
+   */
+  public refresh(): Promise<void> {
+    if (this.indexing) {
+      this.stale = true;
+      return this.indexing;
+    }
+    this.indexing = this.buildIndex().finally(() => {
+      this.indexing = null;
+      if (this.stale) {
+        this.stale = false;
+        this.refresh();
+      }
+    });
+    return this.indexing;
+  }
+
+  /**
+   * Get the indexed Server Actions
+   */
+  public getActions(): ServerAction[] {
+    return [...this.actions];
+  }
+
+  /**
+   * Markdown table of every Server Action, for security reviews
+   */
+  public toMarkdown(): string {
+    const rows = this.actions.map(action => {
+      const file = `${vscode.workspace.asRelativePath(action.filePath)}:${action.line + 1}`;
+      const routes = action.routes.map(route => `\`${route.routePath}\``).join(', ') || '—';
+      return `| \`${action.name}\` | ${file} | ${action.inline ? 'inline' : 'module'} | ${routes} |`;
+    });
+    return ['| Action | File | Declared | Routes |', '| --- | --- | --- | --- |', ...rows].join('\n');
+  }
+
+  private async buildIndex(): Promise<void> {
+    const actions: ServerAction[] = [];
+    try {
+      for (const app of this.routesProvider.getApps()) {
+        const sourceFiles = await vscode.workspace.findFiles(
+          new vscode.RelativePattern(app.projectRoot, SOURCE_FILE_GLOB),
+          new vscode.RelativePattern(app.projectRoot, SOURCE_EXCLUDE_GLOB)
+        );
+        // Files of nested apps belong to those apps
+        const ownFiles = sourceFiles
+          .map(uri => uri.fsPath)
+          .filter(filePath => this.routesProvider.getAppForFile(filePath)?.projectRoot === app.projectRoot);
+        actions.push(...await buildServerActionIndex(ownFiles, this.routesProvider.getAppRouterFilesForFile(app.projectRoot), app.projectRoot));
+      }
+    } catch (error) {
+      console.error('Failed to index Server Actions:', error);
+    }
+
+    this.actions = actions;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+}
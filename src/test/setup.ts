@@ -0,0 +1,51 @@
+import * as Module from 'module';
+
+/**
+ * Unit tests run in plain Node, outside the extension host. Utils only touch the VS Code
+ * API when called from providers, but some import models that subclass its tree types,
+ * so `vscode` resolves to this minimal stand-in.
+ */
+class TreeItem {
+  constructor(public label?: unknown, public collapsibleState?: number) {}
+}
+
+class ThemeIcon {
+  constructor(public id: string, public color?: unknown) {}
+}
+
+class ThemeColor {
+  constructor(public id: string) {}
+}
+
+class MarkdownString {
+  constructor(public value: string = '') {}
+
+  appendMarkdown(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+
+  appendText(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+
+  appendCodeblock(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+}
+
+const vscodeStub = {
+  TreeItem,
+  ThemeIcon,
+  ThemeColor,
+  MarkdownString,
+  TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+  Uri: { file: (fsPath: string) => ({ fsPath, path: fsPath, toString: () => `file://${fsPath}` }) },
+  workspace: { workspaceFolders: undefined, getConfiguration: () => ({ get: (_key: string, fallback?: unknown) => fallback }) }
+};
+
+const moduleLoader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = moduleLoader._load;
+moduleLoader._load = (request: string, ...rest: unknown[]) => request === 'vscode' ? vscodeStub : load(request, ...rest);
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { sendHttpRequest } from '../../utils/httpRequestUtils';
+
+// Delay before the stand-in server answers, so timing has something to measure
+const RESPONSE_DELAY_MS = 50;
+
+suite('httpRequestUtils', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  suiteSetup(async () => {
+    // Echoes the request back; /hang never answers
+    server = http.createServer((request, response) => {
+      if (request.url === '/hang') {
+        return;
+      }
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => setTimeout(() => {
+        response.writeHead(201, 'Created', { 'Content-Type': 'application/json', 'X-Echo': 'yes' });
+        response.end(JSON.stringify({
+          method: request.method,
+          url: request.url,
+          contentType: request.headers['content-type'],
+          token: request.headers['x-token'],
+          body: Buffer.concat(chunks).toString('utf8')
+        }));
+      }, RESPONSE_DELAY_MS));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  suiteTeardown(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('reports status, headers, body, size and timing', async () => {
+    const result = await sendHttpRequest({
+      method: 'post',
+      url: `${baseUrl}/api/users?page=1`,
+      headers: [{ key: 'X-Token', value: 'secret' }, { key: 'X-Skipped', value: '1', enabled: false }],
+      query: [{ key: 'sort', value: 'name' }, { key: 'off', value: '1', enabled: false }],
+      body: '{"name":"Ada"}'
+    });
+
+    assert.strictEqual(result.status, 201);
+    assert.strictEqual(result.statusText, 'Created');
+    assert.strictEqual(result.headers['x-echo'], 'yes');
+    assert.strictEqual(result.headers['content-type'], 'application/json');
+    assert.deepStrictEqual(JSON.parse(result.body), {
+      method: 'POST',
+      url: '/api/users?page=1&sort=name',
+      contentType: 'application/json',
+      token: 'secret',
+      body: '{"name":"Ada"}'
+    });
+    assert.strictEqual(result.size, Buffer.byteLength(result.body));
+    assert.ok(result.durationMs >= RESPONSE_DELAY_MS - 5, `durationMs was ${result.durationMs}`);
+  });
+
+  test('sends no body with GET', async () => {
+    const result = await sendHttpRequest({ method: 'GET', url: `${baseUrl}/`, headers: [], query: [], body: 'ignored' });
+
+    assert.strictEqual(JSON.parse(result.body).body, '');
+  });
+
+  test('rejects when the server does not answer in time', async () => {
+    await assert.rejects(
+      sendHttpRequest({ method: 'GET', url: `${baseUrl}/hang`, headers: [], query: [] }, 100),
+      /timed out after 100 ms/
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { parseNextConfig, planRedirectInsertion, readConfigProperty } from '../../utils/nextConfigUtils';
+
+suite('nextConfigUtils', () => {
+  test('reads the array returned from an arrow function block body', () => {
+    const config = parseNextConfig(`module.exports = {
+  basePath: '/docs',
+  redirects: async () => {
+    const legacy = '/old';
+    return [
+      { source: '/a', destination: '/b', permanent: true },
+    ];
+  },
+};`);
+
+    assert.strictEqual(config.basePath, '/docs');
+    assert.deepStrictEqual(config.redirects.map(redirect => [redirect.source, redirect.destination, redirect.line]), [['/a', '/b', 5]]);
+  });
+
+  test('reads only the array redirects() itself returns', () => {
+    const config = parseNextConfig(`module.exports = {
+  async redirects() {
+    return redirectList;
+  },
+  async rewrites() {
+    return [{ source: '/a', destination: '/b' }];
+  },
+};`);
+
+    assert.deepStrictEqual(config.redirects, []);
+    assert.deepStrictEqual(config.rewrites.map(rewrite => [rewrite.source, rewrite.destination]), [['/a', '/b']]);
+  });
+
+  test('reads expression bodies and typed methods', () => {
+    const config = parseNextConfig(`const nextConfig: NextConfig = {
+  redirects: async () => [{ source: '/old', destination: '/new', permanent: false }],
+  async rewrites(): Promise<Rewrite[]> {
+    return { beforeFiles: [{ source: '/x', destination: '/y' }] };
+  },
+};`);
+
+    assert.deepStrictEqual(config.redirects.map(redirect => [redirect.source, redirect.destination]), [['/old', '/new']]);
+    assert.deepStrictEqual(config.rewrites.map(rewrite => [rewrite.source, rewrite.destination]), [['/x', '/y']]);
+  });
+
+  test('stops at statements inside object and array literals', () => {
+    assert.deepStrictEqual(parseNextConfig('export default { redirects() { return [ ; ] } }').redirects, []);
+    // Not statically known, rather than a hang
+    const i18n = readConfigProperty('const config = { i18n: { locales; }, other: 1 };', 'i18n', value => value !== undefined);
+    assert.strictEqual(typeof i18n, 'symbol');
+  });
+
+  suite('planRedirectInsertion', () => {
+    const redirect = { source: '/blog/:path*', destination: '/articles/:path*' };
+    const apply = (source: string) => {
+      const insertion = planRedirectInsertion(source, redirect);
+      return insertion && source.slice(0, insertion.offset) + insertion.text + source.slice(insertion.offset);
+    };
+
+    test('adds to the array redirects() returns', () => {
+      assert.strictEqual(apply(`module.exports = {
+  async redirects() {
+    return [
+      { source: '/a', destination: '/b', permanent: false },
+    ];
+  },
+};`), `module.exports = {
+  async redirects() {
+    return [
+      { source: '/blog/:path*', destination: '/articles/:path*', permanent: true },
+      { source: '/a', destination: '/b', permanent: false },
+    ];
+  },
+};`);
+    });
+
+    test('adds a redirects() to a config without one', () => {
+      assert.strictEqual(apply(`const nextConfig = {
+  reactStrictMode: true,
+};`), `const nextConfig = {
+  async redirects() {
+    return [
+      { source: '/blog/:path*', destination: '/articles/:path*', permanent: true },
+    ];
+  },
+  reactStrictMode: true,
+};`);
+    });
+
+    test('gives up when redirects() does not return an array literal', () => {
+      assert.strictEqual(planRedirectInsertion(`module.exports = {
+  async redirects() {
+    return redirectList;
+  },
+  rewrites() {
+    return [{ source: '/a', destination: '/b' }];
+  },
+};`, redirect), null);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { RouteFileType } from '../../constants';
+import { AppRouterFile } from '../../utils/routeUtils';
+import { RouteProblemKind, analyzeRouteProblems } from '../../utils/routeDiagnostics';
+
+function page(relativeFolder: string): AppRouterFile {
+  const segments = relativeFolder.split('/');
+  return {
+    filePath: `/app/${relativeFolder}/page.tsx`,
+    relativePath: `${relativeFolder}/page.tsx`,
+    fileName: 'page.tsx',
+    fileType: RouteFileType.Page,
+    segments,
+    routePath: `/${segments.join('/')}`
+  };
+}
+
+function nameMismatches(folders: string[]): string[] {
+  return analyzeRouteProblems(folders.map(page))
+    .filter(problem => problem.kind === RouteProblemKind.DynamicNameMismatch)
+    .map(problem => problem.path);
+}
+
+suite('routeDiagnostics', () => {
+  test('reports different names of [name] segments at the same level', () => {
+    assert.deepStrictEqual(nameMismatches(['blog/[id]', 'blog/[slug]/edit']), ['/blog/[]']);
+  });
+
+  test('reports different catch-all names at the same level', () => {
+    assert.deepStrictEqual(nameMismatches(['docs/[...path]', 'docs/[[...slug]]/print']), ['/docs/[...]']);
+  });
+
+  test('reports a required and an optional catch-all at the same level', () => {
+    assert.deepStrictEqual(nameMismatches(['docs/[...slug]', 'docs/[[...slug]]']), ['/docs/[...]']);
+    assert.deepStrictEqual(nameMismatches(['docs/[...slug]', 'guides/[[...slug]]']), []);
+  });
+
+  test('compares [name] segments and catch-alls separately', () => {
+    assert.deepStrictEqual(nameMismatches(['blog/[id]', 'blog/[...rest]']), []);
+    assert.deepStrictEqual(nameMismatches(['shop/[[...slug]]', 'shop/[id]']), []);
+  });
+});
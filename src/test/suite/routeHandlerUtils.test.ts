@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { HttpMethod } from '../../constants';
+import { parseRouteHandlerMethods } from '../../utils/routeHandlerUtils';
+
+suite('routeHandlerUtils', () => {
+  test('reads exported handlers and their lines', () => {
+    assert.deepStrictEqual(parseRouteHandlerMethods(`export async function GET() {}
+export const POST = handler;
+export const { PUT, DELETE: remove } = handlers;
+export { handler as PATCH } from './handler';`), [
+      { method: HttpMethod.Get, line: 0 },
+      { method: HttpMethod.Post, line: 1 },
+      { method: HttpMethod.Put, line: 2 },
+      { method: HttpMethod.Patch, line: 3 }
+    ]);
+  });
+
+  test('ignores commented-out and type-only exports', () => {
+    assert.deepStrictEqual(parseRouteHandlerMethods(`// export async function DELETE() {}
+/* export const POST = handler; */
+export type { PUT } from './types';
+export { type PATCH, handler as GET };`), [{ method: HttpMethod.Get, line: 3 }]);
+  });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { RouteFileType } from '../../constants';
+import { MatchableRoute, findBestRouteMatch, getUrlPathSegments, matchRoutes } from '../../utils/routeMatcher';
+
+const page = (path: string): MatchableRoute => ({ segments: path.split('/').filter(Boolean), fileType: RouteFileType.Page });
+
+const matchedPaths = (url: string, routes: MatchableRoute[]) => matchRoutes(url, routes).map(candidate => candidate.route.segments.join('/'));
+
+suite('routeMatcher', () => {
+  test('strips the origin of full URLs', () => {
+    assert.deepStrictEqual(getUrlPathSegments('http://localhost:3000/blog/my-post?x=1#top'), ['blog', 'my-post']);
+  });
+
+  test('treats paths containing :// as paths', () => {
+    assert.deepStrictEqual(getUrlPathSegments('/a://b'), ['a:', 'b']);
+  });
+
+  test('falls back to the raw text for malformed URLs', () => {
+    assert.deepStrictEqual(getUrlPathSegments('http://[bad/blog'), ['http:', '[bad', 'blog']);
+  });
+
+  test('prefers a static segment over a dynamic one', () => {
+    const best = findBestRouteMatch('/blog/new', [page('blog/[slug]'), page('blog/new')]);
+    assert.deepStrictEqual(best?.route.segments, ['blog', 'new']);
+    assert.deepStrictEqual(best?.params, {});
+  });
+
+  test('orders dynamic, catch-all and optional catch-all segments', () => {
+    const routes = [page('docs/[[...rest]]'), page('docs/[...path]'), page('docs/[id]')];
+    assert.deepStrictEqual(matchedPaths('/docs/intro', routes), ['docs/[id]', 'docs/[...path]', 'docs/[[...rest]]']);
+    assert.deepStrictEqual(matchRoutes('/docs/guides/intro', routes).map(candidate => candidate.params), [
+      { path: ['guides', 'intro'] },
+      { rest: ['guides', 'intro'] }
+    ]);
+  });
+
+  test('matches an optional catch-all at its bare parent path', () => {
+    const best = findBestRouteMatch('/docs', [page('docs/[...path]'), page('docs/[[...rest]]')]);
+    assert.deepStrictEqual(best?.route.segments, ['docs', '[[...rest]]']);
+    assert.deepStrictEqual(best?.params, {});
+  });
+
+  test('leaves route groups and slots out of the URL', () => {
+    const routes = [page('(marketing)/about'), page('dashboard/@analytics/views')];
+    assert.deepStrictEqual(matchedPaths('/about', routes), ['(marketing)/about']);
+    assert.deepStrictEqual(matchedPaths('/dashboard/views', routes), ['dashboard/@analytics/views']);
+    assert.strictEqual(matchRoutes('/dashboard/views', routes)[0].slot, 'analytics');
+  });
+
+  test('ranks the main page ahead of a slot page for the same URL', () => {
+    const routes = [page('dashboard/@team'), page('dashboard'), { segments: ['dashboard', 'layout'], fileType: RouteFileType.Layout }];
+    assert.deepStrictEqual(matchedPaths('/dashboard', routes), ['dashboard', 'dashboard/@team']);
+  });
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { parseSegmentConfig } from '../../utils/segmentConfigUtils';
+
+suite('segmentConfigUtils', () => {
+  test('reads literal values', () => {
+    assert.deepStrictEqual(parseSegmentConfig(`export const dynamic = 'force-dynamic';
+export const revalidate = 3600
+export const runtime = "edge" // edge functions
+export const preferredRegion = ['iad1', 'sfo1'];`), {
+      dynamic: 'force-dynamic',
+      revalidate: 3600,
+      runtime: 'edge',
+      preferredRegion: ['iad1', 'sfo1']
+    });
+  });
+
+  test('reads literals followed by as const', () => {
+    assert.deepStrictEqual(parseSegmentConfig(`export const dynamic = 'error' as const;
+export const revalidate = false as const`), { dynamic: 'error', revalidate: false });
+  });
+
+  test('skips values that are not literals', () => {
+    assert.deepStrictEqual(parseSegmentConfig(`export const revalidate = 60 * 60 * 24;
+export const dynamic = 'force-' + mode;
+export const runtime = process.env.RUNTIME;`), {});
+  });
+
+  test('reads a literal at the end of the file', () => {
+    assert.deepStrictEqual(parseSegmentConfig('export const revalidate = 60'), { revalidate: 60 });
+  });
+});
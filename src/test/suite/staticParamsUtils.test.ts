@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadStaticParams } from '../../utils/staticParamsUtils';
+
+suite('staticParamsUtils', () => {
+  let projectRoot: string;
+
+  suiteSetup(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-radar-static-params-'));
+    fs.mkdirSync(path.join(projectRoot, 'content', 'posts'), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, 'content', 'posts', 'hello-world.mdx'), '# Hello');
+    fs.writeFileSync(path.join(projectRoot, 'content', 'posts', 'second-post.mdx'), '# Second');
+    fs.writeFileSync(path.join(projectRoot, 'content', 'posts', 'notes.txt'), '');
+    fs.writeFileSync(path.join(projectRoot, 'content', 'posts.json'), JSON.stringify([{ slug: 'from-json' }, { slug: 'another' }]));
+  });
+
+  suiteTeardown(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const load = (source: string) => {
+    const filePath = path.join(projectRoot, 'app', 'blog', '[slug]', 'page.tsx');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+    return loadStaticParams(filePath, projectRoot, null);
+  };
+
+  test('evaluates a literal array', async () => {
+    const params = await load(`export async function generateStaticParams() {
+  return [{ slug: 'first' }, { slug: "second" }] as const;
+}
+
+export default function Page() {}`);
+    assert.deepStrictEqual(params, { line: 0, values: [{ slug: 'first' }, { slug: 'second' }], source: undefined });
+  });
+
+  test('evaluates a literal array mapped to params', async () => {
+    const params = await load(`const SLUGS = ['a', 'b'];
+
+export const generateStaticParams = async () => SLUGS.map((slug: string) => ({ slug: \`post-\${slug}\` }));`);
+    assert.deepStrictEqual(params?.values, [{ slug: 'post-a' }, { slug: 'post-b' }]);
+    assert.strictEqual(params?.line, 2);
+  });
+
+  test('reads a JSON import', async () => {
+    const params = await load(`import posts from '../../../content/posts.json';
+
+export function generateStaticParams() {
+  return posts.map(({ slug }) => ({ slug }));
+}`);
+    assert.deepStrictEqual(params?.values, [{ slug: 'from-json' }, { slug: 'another' }]);
+    assert.strictEqual(params?.source, path.join('content', 'posts.json'));
+  });
+
+  test('reads an MDX directory', async () => {
+    const params = await load(`import fs from 'fs';
+import path from 'path';
+
+const POSTS_DIRECTORY = path.join(process.cwd(), 'content/posts');
+
+export async function generateStaticParams() {
+  const files = await fs.promises.readdir(POSTS_DIRECTORY);
+  return files
+    .filter(file => file.endsWith('.mdx'))
+    .map(file => ({ slug: file.replace(/\\.mdx$/, '') }));
+}`);
+    assert.deepStrictEqual(params?.values, [{ slug: 'hello-world' }, { slug: 'second-post' }]);
+    assert.strictEqual(params?.source, path.join('content', 'posts'));
+  });
+
+  test('does not read outside the project', async () => {
+    const outside = await load(`import fs from 'fs';
+
+export function generateStaticParams() {
+  return fs.readdirSync('${path.dirname(projectRoot).replace(/\\/g, '/')}').map(name => ({ slug: name }));
+}`);
+    assert.deepStrictEqual(outside, { line: 2, values: null });
+
+    const parent = await load(`import fs from 'fs';
+
+export function generateStaticParams() {
+  return fs.readdirSync('../').map(name => ({ slug: name }));
+}`);
+    assert.deepStrictEqual(parent, { line: 2, values: null });
+  });
+
+  test('leaves values computed at build time unknown', async () => {
+    const params = await load(`export async function generateStaticParams() {
+  const posts = await fetch('https://example.com/posts').then(res => res.json());
+  return posts.map(post => ({ slug: post.slug }));
+}`);
+    assert.deepStrictEqual(params, { line: 0, values: null });
+  });
+
+  test('gives up past the evaluation step limit', async () => {
+    const items = Array.from({ length: 3000 }, (_, index) => `{ slug: 's${index}' }`).join(', ');
+    const params = await load(`export function generateStaticParams() {
+  return [${items}];
+}`);
+    assert.deepStrictEqual(params, { line: 0, values: null });
+  });
+});
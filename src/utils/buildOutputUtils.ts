@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { RenderMode, RouteBuildInfo, RouteFileType, RouterType } from '../constants';
+import { AppRouterFile } from './routeUtils';
+
+const gzip = promisify(zlib.gzip);
+
+// Files that are build entries: pages and route handlers of both routers
+const BUILD_ENTRY_FILE_TYPES = [RouteFileType.Page, RouteFileType.Route];
+
+interface PrerenderedRoute {
+  // Seconds, or false for pages that are never revalidated
+  revalidate: number | false;
+  // The route a prerendered URL was generated from (`/blog/[slug]`), null for static routes
+  srcRoute: string | null;
+  // Pages Router data route, only set for getStaticProps pages
+  dataRoute: string | null;
+}
+
+// The parts of a `next build` output Radar reads
+export interface BuildOutput {
+  distDir: string;
+  buildId: string;
+  // App Router entries (`/blog/[slug]/page`, `/api/users/route`) to their server file
+  appPaths: Record<string, string>;
+  // Pages Router routes (`/blog/[slug]`) to their server file (`.html` when statically optimized)
+  pages: Record<string, string>;
+  // Prerendered URLs and the dynamic routes prerendered through generateStaticParams/getStaticPaths
+  prerendered: Record<string, PrerenderedRoute>;
+  prerenderedDynamicRoutes: string[];
+  // Route pages the build serves, from routes-manifest
+  routes: string[];
+  // Client chunks per App Router entry and per Pages Router page, plus those every app page loads
+  appChunks: Record<string, string[]>;
+  pageChunks: Record<string, string[]>;
+  rootMainFiles: string[];
+}
+
+/**
+ * Read the manifests of the last `next build`, null when the project has not been built
+ */
+export async function loadBuildOutput(projectRoot: string, distDir: string = '.next'): Promise<BuildOutput | null> {
+  const root = path.resolve(projectRoot, distDir);
+  let buildId: string;
+  try {
+    buildId = (await fs.promises.readFile(path.join(root, 'BUILD_ID'), 'utf8')).trim();
+  } catch {
+    return null;
+  }
+
+  const [appPaths, pages, prerender, routes, appBuild, build] = await Promise.all([
+    readManifest(root, 'server/app-paths-manifest.json'),
+    readManifest(root, 'server/pages-manifest.json'),
+    readManifest(root, 'prerender-manifest.json'),
+    readManifest(root, 'routes-manifest.json'),
+    readManifest(root, 'app-build-manifest.json'),
+    readManifest(root, 'build-manifest.json')
+  ]);
+
+  const prerendered: Record<string, PrerenderedRoute> = {};
+  for (const [url, entry] of Object.entries(asRecord(prerender.routes))) {
+    const route = asRecord(entry);
+    prerendered[url] = {
+      revalidate: typeof route.initialRevalidateSeconds === 'number' ? route.initialRevalidateSeconds : false,
+      srcRoute: typeof route.srcRoute === 'string' ? route.srcRoute : null,
+      dataRoute: typeof route.dataRoute === 'string' ? route.dataRoute : null
+    };
+  }
+
+  const routePages = [...asArray(routes.staticRoutes), ...asArray(routes.dynamicRoutes)]
+    .map(route => asRecord(route).page)
+    .filter((page): page is string => typeof page === 'string');
+
+  return {
+    distDir: root,
+    buildId,
+    appPaths: asStringRecord(appPaths),
+    pages: asStringRecord(pages),
+    prerendered,
+    prerenderedDynamicRoutes: Object.keys(asRecord(prerender.dynamicRoutes)),
+    routes: routePages,
+    appChunks: asChunkRecord(asRecord(appBuild.pages)),
+    pageChunks: asChunkRecord(asRecord(build.pages)),
+    rootMainFiles: asArray(build.rootMainFiles).filter((file): file is string => typeof file === 'string')
+  };
+}
+
+/**
+ * Annotate the pages and route handlers of an app with how the last build rendered them
+ */
+export async function collectBuildInfo(output: BuildOutput, files: AppRouterFile[]): Promise<Map<string, RouteBuildInfo>> {
+  const chunkSizes = new Map<string, Promise<number>>();
+  const sizeOf = (chunk: string) => {
+    if (!chunkSizes.has(chunk)) {
+      chunkSizes.set(chunk, gzippedSize(path.join(output.distDir, chunk)));
+    }
+    return chunkSizes.get(chunk)!;
+  };
+
+  const result = new Map<string, RouteBuildInfo>();
+  for (const file of files) {
+    if (!BUILD_ENTRY_FILE_TYPES.includes(file.fileType)) {
+      continue;
+    }
+
+    const info = classifyBuiltRoute(output, file);
+    const chunks = info.renderMode !== null && file.fileType === RouteFileType.Page ? getFirstLoadChunks(output, file) : [];
+    if (chunks.length > 0) {
+      const sizes = await Promise.all(chunks.map(sizeOf));
+      info.firstLoadJsBytes = sizes.reduce((total, size) => total + size, 0);
+    }
+    result.set(file.filePath, info);
+  }
+
+  return result;
+}
+
+/**
+ * Static, SSG, ISR or Dynamic, the way `next build` reports it
+ */
+function classifyBuiltRoute(output: BuildOutput, file: AppRouterFile): RouteBuildInfo {
+  const page = toBuildPagePath(file);
+  const isPages = file.router === RouterType.Pages;
+  // Without entry manifests, fall back to the route list of routes-manifest
+  const hasEntries = Object.keys(output.appPaths).length > 0 || Object.keys(output.pages).length > 0;
+  const built = !hasEntries
+    ? output.routes.includes(page)
+    : isPages ? page in output.pages : toAppEntryName(file) in output.appPaths;
+  if (!built) {
+    return { renderMode: null, prerenderedPaths: [] };
+  }
+
+  const prerendered = Object.entries(output.prerendered).filter(([url, route]) => (route.srcRoute ?? url) === page);
+  const isDynamic = page.includes('[');
+  const prerenderedPaths = isDynamic ? prerendered.map(([url]) => url) : [];
+  const intervals = prerendered
+    .map(([, route]) => route.revalidate)
+    .filter((revalidate): revalidate is number => revalidate !== false && revalidate > 0);
+
+  if (intervals.length > 0) {
+    return { renderMode: RenderMode.ISR, revalidate: Math.min(...intervals), prerenderedPaths };
+  }
+  if (prerendered.length > 0 || output.prerenderedDynamicRoutes.includes(page)) {
+    // getStaticProps pages have a data route; App Router pages are SSG when generated from params
+    const isGenerated = isDynamic || prerendered.some(([, route]) => isPages && route.dataRoute !== null);
+    return { renderMode: isGenerated ? RenderMode.SSG : RenderMode.Static, prerenderedPaths };
+  }
+  if (isPages && output.pages[page]?.endsWith('.html')) {
+    // Automatic static optimization: no data fetching at all
+    return { renderMode: RenderMode.Static, prerenderedPaths };
+  }
+  return { renderMode: RenderMode.Dynamic, prerenderedPaths };
+}
+
+/**
+ * Client chunks loaded on the first visit: the page's own, its layouts' and the shared runtime
+ */
+function getFirstLoadChunks(output: BuildOutput, file: AppRouterFile): string[] {
+  let chunks: string[];
+  if (file.router === RouterType.Pages) {
+    const page = toBuildPagePath(file);
+    chunks = [...(output.pageChunks['/_app'] || []), ...(output.pageChunks[page] || [])];
+  } else {
+    const entry = toAppEntryName(file);
+    // Layout entries along the path: /layout, /blog/layout...
+    const folders = entry.split('/').slice(1, -1);
+    const layouts = folders.map((_, index) => `/${[...folders.slice(0, index), 'layout'].join('/')}`);
+    layouts.push(`/${[...folders, 'layout'].join('/')}`);
+    chunks = [
+      ...output.rootMainFiles,
+      ...layouts.flatMap(layout => output.appChunks[layout] || []),
+      ...(output.appChunks[entry] || [])
+    ];
+  }
+  return [...new Set(chunks)].filter(chunk => chunk.endsWith('.js'));
+}
+
+/**
+ * The page path Next.js uses in its manifests: `/blog/[slug]`, without route groups or slots
+ */
+export function toBuildPagePath(file: AppRouterFile): string {
+  if (file.router === RouterType.Pages && file.segments.length === 0) {
+    // `/`, or a special file such as `/_app`
+    return file.routePath;
+  }
+  const segments = file.segments.filter(segment => !/^\(.*\)$/.test(segment) && !segment.startsWith('@'));
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * The App Router entry name of a file: `blog/[slug]/page.tsx` → `/blog/[slug]/page`
+ */
+function toAppEntryName(file: AppRouterFile): string {
+  const withoutExtension = file.relativePath.slice(0, file.relativePath.length - path.extname(file.relativePath).length);
+  return `/${withoutExtension.split(path.sep).join('/')}`;
+}
+
+/**
+ * Format a byte count the way `next build` does (`87.3 kB`)
+ */
+export function formatBuildSize(bytes: number): string {
+  if (bytes < 1000) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1000 * 1000) {
+    return `${(bytes / 1000).toFixed(1)} kB`;
+  }
+  return `${(bytes / 1000 / 1000).toFixed(2)} MB`;
+}
+
+async function readManifest(root: string, name: string): Promise<Record<string, unknown>> {
+  try {
+    return asRecord(JSON.parse(await fs.promises.readFile(path.join(root, name), 'utf8')));
+  } catch {
+    // Not every build writes every manifest (no pages/ folder, older Next.js versions)
+    return {};
+  }
+}
+
+async function gzippedSize(filePath: string): Promise<number> {
+  try {
+    return (await gzip(await fs.promises.readFile(filePath))).length;
+  } catch {
+    return 0;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asStringRecord(value: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
+
+function asChunkRecord(value: Record<string, unknown>): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(value).map(([key, chunks]) => [
+    key,
+    asArray(chunks).filter((chunk): chunk is string => typeof chunk === 'string')
+  ]));
+}
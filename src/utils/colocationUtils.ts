@@ -0,0 +1,45 @@
+import { RouteFileType, METADATA_FILE_TYPES } from '../constants';
+import { AppRouterFile, ColocatedFile } from './routeUtils';
+
+// The route file a folder's colocated files hang under, first match wins
+const OWNER_FILE_TYPES: RouteFileType[] = [
+  RouteFileType.Page,
+  RouteFileType.Route,
+  RouteFileType.Layout,
+  RouteFileType.Template,
+  RouteFileType.Default,
+  RouteFileType.Loading,
+  RouteFileType.Error,
+  RouteFileType.NotFound
+];
+
+/**
+ * Attach each colocated file to the route of its nearest folder that has one,
+ * keyed by that route's file path
+ */
+export function assignColocatedFiles(files: AppRouterFile[], colocatedFiles: ColocatedFile[]): Map<string, ColocatedFile[]> {
+  const ownersByFolder = new Map<string, AppRouterFile>();
+  for (const file of files) {
+    if (METADATA_FILE_TYPES.includes(file.fileType) || !OWNER_FILE_TYPES.includes(file.fileType)) {
+      continue;
+    }
+    const folder = file.segments.join('/');
+    const current = ownersByFolder.get(folder);
+    if (!current || OWNER_FILE_TYPES.indexOf(file.fileType) < OWNER_FILE_TYPES.indexOf(current.fileType)) {
+      ownersByFolder.set(folder, file);
+    }
+  }
+
+  const assigned = new Map<string, ColocatedFile[]>();
+  for (const colocated of colocatedFiles) {
+    for (let depth = colocated.segments.length; depth >= 0; depth--) {
+      const owner = ownersByFolder.get(colocated.segments.slice(0, depth).join('/'));
+      if (owner) {
+        assigned.set(owner.filePath, [...(assigned.get(owner.filePath) || []), colocated]);
+        break;
+      }
+    }
+  }
+
+  return assigned;
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import { ComponentClassification, ComponentType } from '../constants';
+import { AppRouterFile } from './routeUtils';
+import { stripComments } from './nextConfigUtils';
+import { PathAliases, loadPathAliases, parseImportSpecifiers, resolveImport } from './importUtils';
+
+// Route files with code in them; static metadata assets (icon.png, robots.txt) are skipped
+const CODE_FILE_EXTENSION = /\.(m?[jt]sx?|cjs|mdx?)$/;
+
+export interface ComponentDirectives {
+  client: boolean;
+  // 'use server' at the top of the module: every export is a Server Action
+  server: boolean;
+  // Functions opening with 'use server' inside an otherwise ordinary module
+  inlineServerActions: boolean;
+}
+
+interface ModuleInfo {
+  directives: ComponentDirectives;
+  imports: string[];
+}
+
+/**
+ * Read the directives of a module: the string literals heading the file
+ * ('use client', 'use server') and inline 'use server' function bodies
+ */
+export function parseComponentDirectives(source: string): ComponentDirectives {
+  const cleaned = stripComments(source).replace(/^#![^\n]*/, '');
+  const prologue = /\s*(['"])([^'"\n]*)\1\s*;?/y;
+  const directives = new Set<string>();
+
+  let match: RegExpExecArray | null;
+  while ((match = prologue.exec(cleaned))) {
+    directives.add(match[2]);
+  }
+
+  return {
+    client: directives.has('use client'),
+    server: directives.has('use server'),
+    inlineServerActions: /\{\s*(['"])use server\1/.test(cleaned.slice(prologue.lastIndex))
+  };
+}
+
+/**
+ * Classify every code route file as a Server or Client Component, flag Server
+ * Actions and follow the imports of server files to the client modules they render
+ */
+export async function classifyComponents(
+  files: AppRouterFile[],
+  projectRoot: string
+): Promise<Map<string, ComponentClassification>> {
+  const aliases = await loadPathAliases(projectRoot);
+  const modules = new Map<string, Promise<ModuleInfo | null>>();
+  const boundaries = new Map<string, Promise<string[]>>();
+
+  const loadModule = (filePath: string) => {
+    if (!modules.has(filePath)) {
+      modules.set(filePath, readModule(filePath, aliases));
+    }
+    return modules.get(filePath)!;
+  };
+
+  // Client modules reachable from a server module without crossing another client module
+  const findBoundaries = (filePath: string, visiting: Set<string>): Promise<string[]> => {
+    if (!boundaries.has(filePath)) {
+      boundaries.set(filePath, (async () => {
+        const info = await loadModule(filePath);
+        const found = new Set<string>();
+        for (const imported of info?.imports || []) {
+          if (visiting.has(imported)) {
+            continue;
+          }
+          const importedInfo = await loadModule(imported);
+          if (importedInfo?.directives.client) {
+            found.add(imported);
+          } else if (importedInfo) {
+            const nested = await findBoundaries(imported, new Set([...visiting, imported]));
+            nested.forEach(boundary => found.add(boundary));
+          }
+        }
+        return [...found];
+      })());
+    }
+    return boundaries.get(filePath)!;
+  };
+
+  const classifications = new Map<string, ComponentClassification>();
+  for (const file of files) {
+    if (!CODE_FILE_EXTENSION.test(file.fileName)) {
+      continue;
+    }
+    const info = await loadModule(file.filePath);
+    if (!info) {
+      continue;
+    }
+
+    const isClient = info.directives.client;
+    classifications.set(file.filePath, {
+      type: isClient ? ComponentType.Client : ComponentType.Server,
+      hasServerActions: info.directives.server || info.directives.inlineServerActions,
+      clientBoundaries: isClient ? [] : await findBoundaries(file.filePath, new Set([file.filePath]))
+    });
+  }
+
+  return classifications;
+}
+
+async function readModule(filePath: string, aliases: PathAliases | null): Promise<ModuleInfo | null> {
+  try {
+    const source = await fs.promises.readFile(filePath, 'utf8');
+    const imports: string[] = [];
+    for (const specifier of parseImportSpecifiers(source)) {
+      const resolved = await resolveImport(specifier, filePath, aliases);
+      if (resolved && CODE_FILE_EXTENSION.test(resolved)) {
+        imports.push(resolved);
+      }
+    }
+    return { directives: parseComponentDirectives(source), imports };
+  } catch (error) {
+    console.error(`Failed to read component ${filePath}:`, error);
+    return null;
+  }
+}
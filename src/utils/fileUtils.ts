@@ -12,6 +12,13 @@ export function getWorkspaceRoot(): string | null {
   return null;
 }
 
+/**
+ * Get every workspace folder path (multi-root workspaces)
+ */
+export function getWorkspaceRoots(): string[] {
+  return (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+}
+
 /**
  * Check if file exists
  */
@@ -95,6 +102,57 @@ export function normalizePath(filePath: string): string {
   return filePath.replace(/\\/g, '/');
 }
 
+/**
+ * Convert a glob (`**`, `*`, `?`, `{a,b}`) to a regular expression matching
+ * forward-slash paths. A trailing `/**` also matches the folder itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inBraces = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length;
+      if (atStart && glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (atEnd && source.endsWith('/')) {
+        source = source.slice(0, -1) + '(?:/.*)?';
+        i += 1;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inBraces = true;
+      source += '(?:';
+    } else if (char === '}' && inBraces) {
+      inBraces = false;
+      source += ')';
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a path (relative, any separator) against a list of globs
+ */
+export function matchesGlob(filePath: string, globs: string[]): boolean {
+  const normalized = normalizePath(filePath);
+  return globs.some(glob => globToRegExp(glob).test(normalized));
+}
+
 /**
  * Join paths with proper separators
  */
@@ -0,0 +1,143 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * HTTP client for the request runner. Kept free of VS Code APIs so it can be
+ * exercised against any local HTTP server.
+ */
+
+export interface KeyValuePair {
+  key: string;
+  value: string;
+  enabled?: boolean;
+}
+
+export interface HttpRequestSpec {
+  method: string;
+  url: string;
+  headers: KeyValuePair[];
+  query: KeyValuePair[];
+  body?: string;
+}
+
+export interface HttpResponseResult {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+  size: number;
+}
+
+// Methods that never carry a request body
+const BODYLESS_METHODS = ['GET', 'HEAD'];
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Append enabled query pairs to a URL, keeping any query it already has
+ */
+export function buildRequestUrl(url: string, query: KeyValuePair[]): string {
+  const parsed = new URL(url);
+  for (const pair of query) {
+    if (pair.key && pair.enabled !== false) {
+      parsed.searchParams.append(pair.key, pair.value);
+    }
+  }
+  return parsed.toString();
+}
+
+/**
+ * Send a request and collect the whole response
+ */
+export function sendHttpRequest(spec: HttpRequestSpec, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<HttpResponseResult> {
+  const url = new URL(buildRequestUrl(spec.url, spec.query));
+  const method = spec.method.toUpperCase();
+  const client = url.protocol === 'https:' ? https : http;
+
+  const headers: Record<string, string> = {};
+  for (const pair of spec.headers) {
+    if (pair.key && pair.enabled !== false) {
+      headers[pair.key] = pair.value;
+    }
+  }
+
+  const body = BODYLESS_METHODS.includes(method) ? undefined : spec.body || undefined;
+  if (body !== undefined) {
+    if (!hasHeader(headers, 'content-type')) {
+      headers['Content-Type'] = isJson(body) ? 'application/json' : 'text/plain';
+    }
+    headers['Content-Length'] = String(Buffer.byteLength(body));
+  }
+
+  return new Promise((resolve, reject) => {
+    const start = Date.now();
+    const request = client.request(url, { method, headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('error', reject);
+      response.on('end', () => {
+        const buffer = Buffer.concat(chunks);
+        resolve({
+          status: response.statusCode || 0,
+          statusText: response.statusMessage || '',
+          headers: flattenHeaders(response.headers),
+          body: buffer.toString('utf8'),
+          durationMs: Date.now() - start,
+          size: buffer.length
+        });
+      });
+    });
+
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new Error(`Request timed out after ${timeoutMs} ms`));
+    });
+    request.on('error', reject);
+
+    if (body !== undefined) {
+      request.write(body);
+    }
+    request.end();
+  });
+}
+
+/**
+ * Pretty-print JSON bodies, leave anything else untouched
+ */
+export function formatResponseBody(body: string, contentType: string = ''): string {
+  if (!contentType.includes('json') && !isJson(body)) {
+    return body;
+  }
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function isJson(text: string): boolean {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return false;
+  }
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some(key => key.toLowerCase() === name);
+}
+
+function flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { stripComments } from './nextConfigUtils';
+
+// tsconfig/jsconfig `paths`, resolved against `baseUrl`
+export interface PathAliases {
+  baseUrl: string;
+  paths: Record<string, string[]>;
+}
+
+// Extensions tried, in order, for extensionless import specifiers
+const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs', '.mdx'];
+
+/**
+ * Read the `paths` aliases (e.g. `@/*`) from tsconfig.json or jsconfig.json
+ */
+export async function loadPathAliases(projectRoot: string): Promise<PathAliases | null> {
+  for (const fileName of ['tsconfig.json', 'jsconfig.json']) {
+    try {
+      const source = await fs.promises.readFile(path.join(projectRoot, fileName), 'utf8');
+      // JSON with comments and trailing commas
+      const config = JSON.parse(stripComments(source).replace(/,(\s*[}\]])/g, '$1'));
+      const compilerOptions = config.compilerOptions || {};
+      return {
+        baseUrl: path.resolve(projectRoot, compilerOptions.baseUrl || '.'),
+        paths: compilerOptions.paths || {}
+      };
+    } catch {
+      // Missing or unparsable, try the next one
+    }
+  }
+  return null;
+}
+
+// One runtime import of a module
+export interface ModuleImport {
+  specifier: string;
+  // Exported names it binds: `default`, named exports, or `*` for namespace and dynamic imports
+  names: string[];
+}
+
+/**
+ * Runtime imports of a module: static imports, re-exports and dynamic
+ * `import()`. Type-only imports are left out.
+ */
+export function parseImports(source: string): ModuleImport[] {
+  const cleaned = stripComments(source);
+  const imports: ModuleImport[] = [];
+
+  for (const match of cleaned.matchAll(/\bimport\s+(type\s+)?(?:([\w*{}\s,$]+?)\s*from\s*)?(['"])([^'"\n]+)\3/g)) {
+    if (!match[1]) {
+      imports.push({ specifier: match[4], names: parseImportClause(match[2] || '') });
+    }
+  }
+  for (const match of cleaned.matchAll(/\bexport\s+(type\s+)?(\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s*(['"])([^'"\n]+)\3/g)) {
+    if (!match[1]) {
+      imports.push({ specifier: match[4], names: parseImportClause(match[2]) });
+    }
+  }
+  for (const match of cleaned.matchAll(/\bimport\(\s*(['"])([^'"\n]+)\1\s*\)/g)) {
+    imports.push({ specifier: match[2], names: ['*'] });
+  }
+
+  return imports;
+}
+
+/**
+ * Runtime import specifiers of a module, each listed once
+ */
+export function parseImportSpecifiers(source: string): string[] {
+  return [...new Set(parseImports(source).map(moduleImport => moduleImport.specifier))];
+}
+
+/**
+ * Names bound by `Default, { a, b as c }`, `* as ns` or `{ a as b }` (re-exports)
+ */
+function parseImportClause(clause: string): string[] {
+  const names: string[] = [];
+  const trimmed = clause.trim();
+  if (trimmed.startsWith('*')) {
+    return ['*'];
+  }
+
+  const named = /\{([^}]*)\}/.exec(trimmed);
+  if (/^[\w$]+/.test(trimmed)) {
+    names.push('default');
+  }
+  if (/,\s*\*/.test(trimmed)) {
+    names.push('*');
+  }
+  for (const specifier of (named?.[1] || '').split(',')) {
+    const name = /^\s*(type\s+)?([\w$]+)/.exec(specifier);
+    if (name && !name[1]) {
+      names.push(name[2]);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Resolve an import specifier to a file in the project: relative paths and
+ * tsconfig aliases only, packages from node_modules are not followed
+ */
+export async function resolveImport(specifier: string, fromFile: string, aliases: PathAliases | null): Promise<string | null> {
+  const bases: string[] = [];
+
+  if (specifier.startsWith('.')) {
+    bases.push(path.resolve(path.dirname(fromFile), specifier));
+  } else if (aliases) {
+    for (const [alias, targets] of Object.entries(aliases.paths)) {
+      const wildcard = alias.endsWith('*') ? alias.slice(0, -1) : null;
+      if (wildcard !== null ? specifier.startsWith(wildcard) : specifier === alias) {
+        const rest = wildcard !== null ? specifier.slice(wildcard.length) : '';
+        bases.push(...targets.map(target => path.resolve(aliases.baseUrl, target.replace('*', rest))));
+      }
+    }
+  }
+
+  for (const base of bases) {
+    const candidates = [
+      base,
+      ...MODULE_EXTENSIONS.map(extension => base + extension),
+      ...MODULE_EXTENSIONS.map(extension => path.join(base, `index${extension}`))
+    ];
+    for (const candidate of candidates) {
+      if (await isFile(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
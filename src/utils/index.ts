@@ -1,11 +1,74 @@
 // Route utilities
 export * from './routeUtils';
 
+// Pages Router utilities
+export * from './pagesRouterUtils';
+
+// Route matching
+export * from './routeMatcher';
+
+// Route diagnostics
+export * from './routeDiagnostics';
+
+// next.config parsing
+export * from './nextConfigUtils';
+
+// Middleware matchers
+export * from './middlewareUtils';
+
 // File utilities  
 export * from './fileUtils';
 
 // URL utilities
 export * from './urlUtils';
 
+// Route handler methods
+export * from './routeHandlerUtils';
+
+// Route segment config
+export * from './segmentConfigUtils';
+
+// Route anatomy (render chain)
+export * from './routeAnatomyUtils';
+
+// Parallel route slots
+export * from './parallelRouteUtils';
+
+// Intercepting routes
+export * from './interceptingRouteUtils';
+
+// Colocated files
+export * from './colocationUtils';
+
+// Import resolution
+export * from './importUtils';
+
+// Server and Client Components
+export * from './componentTypeUtils';
+
+// Server Actions
+export * from './serverActionUtils';
+
+// generateStaticParams evaluation
+export * from './staticParamsUtils';
+
+// next build output
+export * from './buildOutputUtils';
+
+// Link, router and redirect references to routes
+export * from './routeReferenceUtils';
+
+// Route segment rename
+export * from './routeRenameUtils';
+
+// New Route templates
+export * from './routeTemplateUtils';
+
+// HTTP request runner
+export * from './httpRequestUtils';
+
+// Search filters
+export * from './searchFilters';
+
 // Fuzzy search utilities
 export * from './fuzzySearch';
\ No newline at end of file
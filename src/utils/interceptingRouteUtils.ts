@@ -0,0 +1,47 @@
+import { RouteFileType } from '../constants';
+import { AppRouterFile, buildRoutePath, isInterceptingRoute, isParallelRoute, parseInterceptingSegment, resolveInterceptedSegments } from './routeUtils';
+import { getRouteShape } from './routeMatcher';
+
+export interface InterceptingRoute {
+  // Page rendered on soft navigation, e.g. feed/@modal/(..)photo/[id]/page.tsx
+  source: AppRouterFile;
+  // (.), (..), (..)(..) or (...)
+  marker: string;
+  // Route path being intercepted, e.g. /photo/:id
+  targetPath: string;
+  // Page rendered on hard navigation, when it exists
+  target?: AppRouterFile;
+}
+
+/**
+ * Resolve every intercepting page to the route it intercepts and, when one
+ * exists, the page Next.js renders for that URL on a full page load
+ */
+export function resolveInterceptingRoutes(files: AppRouterFile[]): InterceptingRoute[] {
+  const pages = files.filter(file => file.fileType === RouteFileType.Page);
+  const targets = pages.filter(file => !file.segments.some(isInterceptingRoute));
+  const routes: InterceptingRoute[] = [];
+
+  for (const source of pages) {
+    const markerSegment = [...source.segments].reverse().find(isInterceptingRoute);
+    const targetSegments = resolveInterceptedSegments(source.segments);
+    if (!markerSegment || !targetSegments) {
+      continue;
+    }
+
+    // Parameter names may differ ((..)photo/[id] vs photo/[photoId]); main pages win over slot pages
+    const shape = getRouteShape(targetSegments);
+    const target = targets
+      .filter(file => getRouteShape(file.segments) === shape)
+      .sort((a, b) => Number(a.segments.some(isParallelRoute)) - Number(b.segments.some(isParallelRoute)))[0];
+
+    routes.push({
+      source,
+      marker: parseInterceptingSegment(markerSegment)!.marker,
+      targetPath: buildRoutePath(targetSegments),
+      target
+    });
+  }
+
+  return routes;
+}
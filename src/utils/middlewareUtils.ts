@@ -0,0 +1,203 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { RouteFileType, RoutingPattern } from '../constants';
+import { RouteItem } from '../models';
+import { getRoutableSegments } from './routeMatcher';
+import { readConfigProperty, isLiteralObject, LiteralValue } from './nextConfigUtils';
+
+/**
+ * Statically read `middleware.ts` and its exported `config.matcher`, then tell
+ * which route paths the middleware runs on. As with next.config, the file is
+ * never executed: only literal matchers are understood.
+ */
+
+export const MIDDLEWARE_FILES = ['middleware.ts', 'middleware.js'] as const;
+
+export interface MiddlewareMatcher {
+  source: string;
+  // Header/cookie/query conditions decide at request time whether the matcher applies
+  conditional: boolean;
+  regexp: RegExp | null;
+}
+
+export interface MiddlewareInfo {
+  filePath: string;
+  // null when no matcher is exported: middleware runs on every path
+  matchers: MiddlewareMatcher[] | null;
+}
+
+/**
+ * Find the middleware file of a project (project root or src/, next to app/ and pages/)
+ */
+export async function findMiddlewarePath(projectRoot: string): Promise<string | null> {
+  for (const directory of [projectRoot, path.join(projectRoot, 'src')]) {
+    for (const fileName of MIDDLEWARE_FILES) {
+      const filePath = path.join(directory, fileName);
+      try {
+        await fs.promises.access(filePath);
+        return filePath;
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Load and statically parse the middleware of a project
+ */
+export async function loadMiddleware(projectRoot: string): Promise<MiddlewareInfo | null> {
+  const filePath = await findMiddlewarePath(projectRoot);
+  if (!filePath) {
+    return null;
+  }
+
+  try {
+    const source = await fs.promises.readFile(filePath, 'utf8');
+    return { filePath, matchers: parseMiddlewareMatchers(source) };
+  } catch (error) {
+    console.error(`Failed to parse ${filePath}:`, error);
+    return { filePath, matchers: null };
+  }
+}
+
+/**
+ * Parse `config.matcher`: a string, an array of strings, or { source, has, missing } objects
+ */
+export function parseMiddlewareMatchers(source: string): MiddlewareMatcher[] | null {
+  const matcher = readConfigProperty(source, 'matcher', value => typeof value === 'string' || Array.isArray(value));
+  if (matcher === undefined) {
+    return null;
+  }
+
+  const entries: LiteralValue[] = Array.isArray(matcher) ? matcher : [matcher];
+  const matchers: MiddlewareMatcher[] = [];
+
+  for (const entry of entries) {
+    if (typeof entry === 'string') {
+      matchers.push({ source: entry, conditional: false, regexp: compileMatcherSource(entry) });
+    } else if (isLiteralObject(entry) && typeof entry.source === 'string') {
+      matchers.push({
+        source: entry.source,
+        conditional: entry.has !== undefined || entry.missing !== undefined,
+        regexp: compileMatcherSource(entry.source)
+      });
+    }
+  }
+
+  return matchers;
+}
+
+/**
+ * Find the matcher that makes middleware run on a route. A middleware without
+ * matchers runs everywhere, reported as a `/:path*` matcher.
+ */
+export function findMiddlewareMatcher(segments: string[], middleware: MiddlewareInfo): MiddlewareMatcher | null {
+  if (!middleware.matchers) {
+    return { source: '/:path*', conditional: false, regexp: null };
+  }
+
+  const samplePath = getSamplePath(segments);
+  return middleware.matchers.find(matcher => matcher.regexp?.test(samplePath)) || null;
+}
+
+/**
+ * Compile a path-to-regexp style matcher (`/dashboard/:path*`, `/((?!api|_next).*)`)
+ */
+export function compileMatcherSource(source: string): RegExp | null {
+  let pattern = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const hasPrefix = char === '/' && (source[index + 1] === ':' || source[index + 1] === '(');
+    const start = hasPrefix ? index + 1 : index;
+
+    if (source[start] === ':' || source[start] === '(') {
+      let end = start;
+      let group = '[^/]+?';
+
+      if (source[end] === ':') {
+        const name = /^:\w+/.exec(source.slice(end));
+        if (!name) {
+          return null;
+        }
+        end += name[0].length;
+      }
+      if (source[end] === '(') {
+        const close = findGroupEnd(source, end);
+        if (close < 0) {
+          return null;
+        }
+        group = source.slice(end + 1, close);
+        end = close + 1;
+      }
+
+      const modifier = /[*+?]/.test(source[end] || '') ? source[end++] : '';
+      const prefix = hasPrefix ? '\\/' : '';
+      const once = `${prefix}(?:${group})`;
+      switch (modifier) {
+        case '*': pattern += `(?:${once}(?:${once})*)?`; break;
+        case '+': pattern += `${once}(?:${once})*`; break;
+        case '?': pattern += `(?:${once})?`; break;
+        default: pattern += once; break;
+      }
+      index = end;
+      continue;
+    }
+
+    pattern += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    index++;
+  }
+
+  try {
+    return new RegExp(`^${pattern}\\/?$`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the middleware file as a route so it can be found and opened from the views
+ */
+export function buildMiddlewareRouteItem(middleware: MiddlewareInfo, idPrefix: string = ''): RouteItem {
+  const matchers = middleware.matchers
+    ? middleware.matchers.map(matcher => matcher.source).join(', ')
+    : '/:path*';
+
+  return new RouteItem(
+    `${idPrefix}middleware:${middleware.filePath}`,
+    'middleware',
+    matchers,
+    middleware.filePath,
+    RouteFileType.Middleware,
+    RoutingPattern.Static,
+    []
+  );
+}
+
+/**
+ * Turn route segments into a concrete path, using parameter names as sample values
+ */
+function getSamplePath(segments: string[]): string {
+  const sample = getRoutableSegments(segments).map(segment => segment.replace(/^\[{1,2}(?:\.\.\.)?(\w+)\]{1,2}$/, '$1'));
+  return '/' + sample.join('/');
+}
+
+/**
+ * Find the parenthesis closing the one at `start`
+ */
+function findGroupEnd(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '(') {
+      depth++;
+    } else if (source[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,610 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { RouteFileType, RoutingPattern, getRoutingPattern, DEFAULT_PAGE_EXTENSIONS } from '../constants';
+import { RouteItem } from '../models';
+
+/**
+ * Statically read Next.js config files. The config is never executed: literal
+ * values are parsed from the source, anything computed at runtime is ignored.
+ */
+
+export const NEXT_CONFIG_FILES = [
+  'next.config.js',
+  'next.config.mjs',
+  'next.config.cjs',
+  'next.config.ts',
+  'next.config.mts'
+] as const;
+
+export interface NextConfigRedirect {
+  source: string;
+  destination: string;
+  permanent: boolean;
+  basePath?: false;
+  line: number;
+}
+
+export interface NextConfigRewrite {
+  source: string;
+  destination: string;
+  basePath?: false;
+  line: number;
+}
+
+export interface NextConfigI18n {
+  locales: string[];
+  defaultLocale: string;
+}
+
+export interface NextConfigInfo {
+  configPath: string | null;
+  basePath: string;
+  trailingSlash: boolean;
+  pageExtensions: string[];
+  // Build output folder, `.next` unless configured
+  distDir: string;
+  i18n?: NextConfigI18n;
+  redirects: NextConfigRedirect[];
+  rewrites: NextConfigRewrite[];
+}
+
+// Value the literal parser could not evaluate statically
+const UNKNOWN = Symbol('unknown');
+export type LiteralValue = string | number | boolean | null | undefined | typeof UNKNOWN | LiteralValue[] | { [key: string]: LiteralValue };
+
+/**
+ * Get an empty config (what Next.js uses without a config file)
+ */
+export function getDefaultNextConfig(): NextConfigInfo {
+  return {
+    configPath: null,
+    basePath: '',
+    trailingSlash: false,
+    pageExtensions: [...DEFAULT_PAGE_EXTENSIONS],
+    distDir: '.next',
+    redirects: [],
+    rewrites: []
+  };
+}
+
+/**
+ * Find the Next.js config file of a project
+ */
+export async function findNextConfigPath(projectRoot: string): Promise<string | null> {
+  for (const fileName of NEXT_CONFIG_FILES) {
+    const configPath = path.join(projectRoot, fileName);
+    try {
+      await fs.promises.access(configPath);
+      return configPath;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Load and statically parse the Next.js config of a project
+ */
+export async function loadNextConfig(projectRoot: string): Promise<NextConfigInfo> {
+  const configPath = await findNextConfigPath(projectRoot);
+  if (!configPath) {
+    return getDefaultNextConfig();
+  }
+
+  try {
+    const source = await fs.promises.readFile(configPath, 'utf8');
+    return { ...parseNextConfig(source), configPath };
+  } catch (error) {
+    console.error(`Failed to parse ${configPath}:`, error);
+    return { ...getDefaultNextConfig(), configPath };
+  }
+}
+
+/**
+ * Parse basePath, trailingSlash, pageExtensions, distDir, i18n, redirects() and rewrites() from config source
+ */
+export function parseNextConfig(source: string): NextConfigInfo {
+  const config = getDefaultNextConfig();
+
+  const basePath = readConfigProperty(source, 'basePath', value => typeof value === 'string');
+  if (typeof basePath === 'string') {
+    config.basePath = basePath.replace(/\/+$/, '');
+  }
+
+  config.trailingSlash = readConfigProperty(source, 'trailingSlash', value => typeof value === 'boolean') === true;
+
+  const pageExtensions = readConfigProperty(source, 'pageExtensions', Array.isArray);
+  if (Array.isArray(pageExtensions)) {
+    const extensions = pageExtensions
+      .filter((extension): extension is string => typeof extension === 'string' && extension !== '')
+      .map(extension => extension.replace(/^\./, ''));
+    if (extensions.length > 0) {
+      config.pageExtensions = extensions;
+    }
+  }
+
+  const distDir = readConfigProperty(source, 'distDir', value => typeof value === 'string' && value !== '');
+  if (typeof distDir === 'string') {
+    config.distDir = distDir.replace(/\/+$/, '');
+  }
+
+  const i18n = readConfigProperty(source, 'i18n', isLiteralObject);
+  if (isLiteralObject(i18n) && Array.isArray(i18n.locales) && typeof i18n.defaultLocale === 'string') {
+    config.i18n = {
+      locales: i18n.locales.filter((locale): locale is string => typeof locale === 'string'),
+      defaultLocale: i18n.defaultLocale
+    };
+  }
+
+  config.redirects = readRouteEntries(source, 'redirects')
+    .filter(entry => typeof entry.value.destination === 'string')
+    .map(entry => ({
+      source: entry.value.source as string,
+      destination: entry.value.destination as string,
+      permanent: entry.value.permanent === true,
+      basePath: entry.value.basePath === false ? false : undefined,
+      line: entry.line
+    }));
+
+  config.rewrites = readRouteEntries(source, 'rewrites')
+    .filter(entry => typeof entry.value.destination === 'string')
+    .map(entry => ({
+      source: entry.value.source as string,
+      destination: entry.value.destination as string,
+      basePath: entry.value.basePath === false ? false : undefined,
+      line: entry.line
+    }));
+
+  return config;
+}
+
+/**
+ * Turn a route path into the public path Next.js serves (basePath, trailing slash)
+ */
+export function applyNextConfigToPath(routePath: string, config: NextConfigInfo, includeBasePath: boolean = true): string {
+  let publicPath = routePath.startsWith('/') ? routePath : `/${routePath}`;
+
+  if (includeBasePath && config.basePath) {
+    publicPath = publicPath === '/' ? config.basePath : `${config.basePath}${publicPath}`;
+  }
+
+  if (config.trailingSlash && !publicPath.endsWith('/')) {
+    publicPath += '/';
+  } else if (!config.trailingSlash && publicPath.length > 1 && publicPath.endsWith('/')) {
+    publicPath = publicPath.slice(0, -1);
+  }
+
+  return publicPath;
+}
+
+/**
+ * Turn a served pathname back into a route path (strip basePath and locale prefix)
+ */
+export function toRoutePathname(pathname: string, config: NextConfigInfo): string {
+  let routePath = pathname;
+
+  if (config.basePath && (routePath === config.basePath || routePath.startsWith(`${config.basePath}/`))) {
+    routePath = routePath.slice(config.basePath.length) || '/';
+  }
+
+  if (config.i18n) {
+    const [, firstSegment] = routePath.split('/');
+    if (config.i18n.locales.includes(firstSegment)) {
+      routePath = routePath.slice(firstSegment.length + 1) || '/';
+    }
+  }
+
+  return routePath;
+}
+
+/**
+ * Read the literal value of a config property such as `basePath: '/docs'`. The same key
+ * can appear nested (a redirect's `basePath: false`), so the first value accepted wins.
+ */
+export function readConfigProperty(
+  source: string,
+  key: string,
+  accept: (value: LiteralValue) => boolean = value => value !== UNKNOWN && value !== undefined
+): LiteralValue {
+  const cleaned = stripComments(source);
+  const pattern = new RegExp(`(?:^|[\\s{,])${key}\\s*:\\s*`, 'g');
+
+  for (const match of cleaned.matchAll(pattern)) {
+    const parser = new LiteralParser(cleaned, match.index + match[0].length);
+    const value = parser.parseValue();
+    if (accept(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the array returned by redirects()/rewrites(), including the
+ * { beforeFiles, afterFiles, fallback } form of rewrites
+ */
+function readRouteEntries(source: string, key: string): { value: { [key: string]: LiteralValue }; line: number }[] {
+  const cleaned = stripComments(source);
+  const start = findReturnedLiteral(cleaned, key);
+  if (start === null) {
+    return [];
+  }
+
+  const parser = new LiteralParser(cleaned, start, true);
+  const value = parser.parseValue();
+
+  const arrays: LiteralValue[] = Array.isArray(value)
+    ? [value]
+    : isLiteralObject(value)
+      ? [value.beforeFiles, value.afterFiles, value.fallback]
+      : [];
+
+  return arrays
+    .filter(Array.isArray)
+    .flat()
+    .filter(isLiteralObject)
+    .filter(entry => typeof entry.source === 'string')
+    .map(entry => ({ value: entry, line: parser.lineOf(entry) }));
+}
+
+/**
+ * Offset of the literal a config function returns (`return [`, `=> [`, `=> ({`), searched only
+ * inside that function's body; null when the key is not a function returning a literal
+ */
+function findReturnedLiteral(source: string, key: string): number | null {
+  const keyMatch = new RegExp(`\\b${key}\\s*(?::\\s*(?:async\\b\\s*)?(?:function\\b\\s*[\\w$]*\\s*)?)?\\(`).exec(source);
+  if (!keyMatch) {
+    return null;
+  }
+
+  // Past the parameter list, an optional return type and the arrow
+  const parser = new LiteralParser(source, 0);
+  let index = parser.findClosing(keyMatch.index + keyMatch[0].length - 1) + 1;
+  index += /^\s*(?::[^{=]*)?(?:=>)?\s*/.exec(source.slice(index))![0].length;
+
+  if (source[index] === '{') {
+    // Block body: its first `return` of a literal
+    const end = parser.findClosing(index);
+    const returnMatch = /\breturn\s*\(?\s*[[{]/g;
+    returnMatch.lastIndex = index;
+    const found = returnMatch.exec(source);
+    return found && found.index < end ? found.index + found[0].length - 1 : null;
+  }
+
+  // Expression body: `=> [` or `=> ({`
+  const expression = /^\(?\s*[[{]/.exec(source.slice(index));
+  return expression ? index + expression[0].length - 1 : null;
+}
+
+/**
+ * Where to add a permanent redirect to a next.config source: at the start of the array
+ * redirects() returns, or as a new redirects() on the config object. Null when neither is found.
+ */
+export function planRedirectInsertion(source: string, redirect: { source: string; destination: string }): { offset: number; text: string } | null {
+  const cleaned = stripComments(source);
+  const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+  const entry = `{ source: ${quote(redirect.source)}, destination: ${quote(redirect.destination)}, permanent: true },`;
+  const indentAt = (index: number) => /^[ \t]*/.exec(cleaned.slice(cleaned.lastIndexOf('\n', index - 1) + 1))![0];
+
+  if (/\bredirects\s*(?:\(|:)/.test(cleaned)) {
+    // An existing redirects() has to return an array literal to add to
+    const start = findReturnedLiteral(cleaned, 'redirects');
+    if (start === null || cleaned[start] !== '[') {
+      return null;
+    }
+    const offset = start + 1;
+    const indent = indentAt(start);
+    // An empty `return []` gets its closing bracket on a line of its own
+    const closing = /^\s*\]/.test(cleaned.slice(offset)) ? `\n${indent}` : '';
+    return { offset, text: `\n${indent}  ${entry}${closing}` };
+  }
+
+  const configMatch = /(?:\bnextConfig\b[^=\n]*=|module\.exports\s*=|export\s+default)\s*\{/.exec(cleaned);
+  if (!configMatch) {
+    return null;
+  }
+  const indent = `${indentAt(configMatch.index)}  `;
+  return {
+    offset: configMatch.index + configMatch[0].length,
+    text: `\n${indent}async redirects() {\n${indent}  return [\n${indent}    ${entry}\n${indent}  ];\n${indent}},`
+  };
+}
+
+export function isLiteralObject(value: LiteralValue): value is { [key: string]: LiteralValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace comments with spaces, keeping offsets and line numbers intact
+ */
+export function stripComments(source: string): string {
+  return source.replace(
+    /(["'`])(?:\\.|(?!\1)[^\\])*\1|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    match => (match.startsWith('/') ? match.replace(/[^\n]/g, ' ') : match)
+  );
+}
+
+/**
+ * Minimal parser for JavaScript literals (objects, arrays, strings, numbers, booleans).
+ * Unsupported expressions are skipped and evaluate to UNKNOWN.
+ */
+class LiteralParser {
+  private objectLines = new Map<object, number>();
+
+  constructor(private source: string, private index: number, private trackLines: boolean = false) {}
+
+  public lineOf(value: object): number {
+    return this.objectLines.get(value) ?? 0;
+  }
+
+  public parseValue(): LiteralValue {
+    this.skipWhitespace();
+    const char = this.source[this.index];
+
+    if (char === '{') {
+      return this.parseObject();
+    }
+    if (char === '[') {
+      return this.parseArray();
+    }
+    if (char === '"' || char === '\'' || char === '`') {
+      return this.finishValue(this.readString(char));
+    }
+
+    const literal = /^(?:true|false|null|undefined|-?\d+(?:\.\d+)?)(?![\w$.(])/.exec(this.source.slice(this.index, this.index + 32));
+    if (literal) {
+      this.index += literal[0].length;
+      this.skipWhitespace();
+      if (!this.atValueEnd()) {
+        this.skipExpression();
+        return UNKNOWN;
+      }
+      switch (literal[0]) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'null': return null;
+        case 'undefined': return undefined;
+        default: return Number(literal[0]);
+      }
+    }
+
+    this.skipExpression();
+    return UNKNOWN;
+  }
+
+  private parseObject(): LiteralValue {
+    const start = this.index;
+    const result: { [key: string]: LiteralValue } = {};
+    this.index++;
+
+    while (this.index < this.source.length) {
+      this.skipWhitespace();
+      const char = this.source[this.index];
+
+      if (char === '}') {
+        this.index++;
+        break;
+      }
+      if (char === ',') {
+        this.index++;
+        continue;
+      }
+      if (this.atValueEnd()) {
+        // `;`, `)` or `]`: a block body or statement rather than an object literal
+        return UNKNOWN;
+      }
+
+      const key = this.parseKey();
+      this.skipWhitespace();
+      if (key !== null && this.source[this.index] === ':') {
+        this.index++;
+        result[key] = this.parseValue();
+      } else {
+        // Spread, shorthand property or method: not statically known
+        this.skipExpression();
+      }
+    }
+
+    if (this.trackLines) {
+      this.objectLines.set(result, this.source.slice(0, start).split('\n').length - 1);
+    }
+    return this.finishValue(result);
+  }
+
+  private parseArray(): LiteralValue {
+    const result: LiteralValue[] = [];
+    this.index++;
+
+    while (this.index < this.source.length) {
+      this.skipWhitespace();
+      const char = this.source[this.index];
+
+      if (char === ']') {
+        this.index++;
+        break;
+      }
+      if (char === ',') {
+        this.index++;
+        continue;
+      }
+      if (this.atValueEnd()) {
+        // `;`, `)` or `}`: not an array literal
+        return UNKNOWN;
+      }
+
+      result.push(this.parseValue());
+    }
+
+    return this.finishValue(result);
+  }
+
+  /**
+   * Read a string literal; template literals with interpolation are UNKNOWN
+   */
+  private readString(quote: string): string | typeof UNKNOWN {
+    let value = '';
+    let interpolated = false;
+    this.index++;
+
+    while (this.index < this.source.length && this.source[this.index] !== quote) {
+      const char = this.source[this.index];
+      if (char === '\\') {
+        value += this.source[this.index + 1] ?? '';
+        this.index += 2;
+        continue;
+      }
+      if (quote === '`' && char === '$' && this.source[this.index + 1] === '{') {
+        this.index = this.findClosing(this.index + 1) + 1;
+        interpolated = true;
+        continue;
+      }
+      value += char;
+      this.index++;
+    }
+    this.index++;
+
+    return interpolated ? UNKNOWN : value;
+  }
+
+  private parseKey(): string | null {
+    const char = this.source[this.index];
+    if (char === '"' || char === '\'') {
+      const key = this.readString(char);
+      return typeof key === 'string' ? key : null;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(this.source.slice(this.index));
+    if (!identifier) {
+      return null;
+    }
+    this.index += identifier[0].length;
+    return identifier[0];
+  }
+
+  /**
+   * A literal followed by an operator (`'a' + b`, `x || y`) is not statically known
+   */
+  private finishValue(value: LiteralValue): LiteralValue {
+    this.skipWhitespace();
+    if (this.atValueEnd()) {
+      return value;
+    }
+    this.skipExpression();
+    return UNKNOWN;
+  }
+
+  private atValueEnd(): boolean {
+    const char = this.source[this.index];
+    return char === undefined || char === ',' || char === '}' || char === ']' || char === ')' || char === ';';
+  }
+
+  /**
+   * Skip to the end of the current expression, respecting nested brackets and strings
+   */
+  private skipExpression(): void {
+    while (this.index < this.source.length && !this.atValueEnd()) {
+      const char = this.source[this.index];
+      if (char === '{' || char === '[' || char === '(') {
+        this.index = this.findClosing(this.index) + 1;
+      } else if (char === '"' || char === '\'' || char === '`') {
+        this.parseQuotedRaw(char);
+      } else {
+        this.index++;
+      }
+    }
+  }
+
+  /**
+   * Find the bracket closing the one at `start`
+   */
+  public findClosing(start: number): number {
+    let depth = 0;
+    for (let i = start; i < this.source.length; i++) {
+      const char = this.source[i];
+      if (char === '"' || char === '\'' || char === '`') {
+        const saved = this.index;
+        this.index = i;
+        this.parseQuotedRaw(char);
+        i = this.index - 1;
+        this.index = saved;
+      } else if (char === '{' || char === '[' || char === '(') {
+        depth++;
+      } else if (char === '}' || char === ']' || char === ')') {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    return this.source.length;
+  }
+
+  /**
+   * Advance past a quoted string without evaluating it
+   */
+  private parseQuotedRaw(quote: string): void {
+    this.index++;
+    while (this.index < this.source.length && this.source[this.index] !== quote) {
+      this.index += this.source[this.index] === '\\' ? 2 : 1;
+    }
+    this.index++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.source.length && /\s/.test(this.source[this.index])) {
+      this.index++;
+    }
+  }
+}
+
+/**
+ * Convert a redirect/rewrite source (`/blog/:slug`, `/docs/:path*`) into route segments
+ */
+export function sourceToSegments(source: string): string[] {
+  return source
+    .split('?')[0]
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      const param = /^:(\w+)([*+?]?)(?:\(.*\))?$/.exec(segment);
+      if (!param) {
+        return segment;
+      }
+      switch (param[2]) {
+        case '*': return `[[...${param[1]}]]`;
+        case '+': return `[...${param[1]}]`;
+        default: return `[${param[1]}]`;
+      }
+    });
+}
+
+/**
+ * List redirect and rewrite sources as virtual routes pointing at their destinations
+ */
+export function buildConfigRouteItems(config: NextConfigInfo, idPrefix: string = ''): RouteItem[] {
+  if (!config.configPath) {
+    return [];
+  }
+
+  const entries = [
+    ...config.redirects.map(entry => ({ ...entry, fileType: RouteFileType.Redirect })),
+    ...config.rewrites.map(entry => ({ ...entry, fileType: RouteFileType.Rewrite }))
+  ];
+
+  return entries.map((entry, index) => {
+    const segments = sourceToSegments(entry.source);
+    const pattern = segments.map(getRoutingPattern).find(p => p !== RoutingPattern.Static) || RoutingPattern.Static;
+    const item = new RouteItem(
+      `${idPrefix}${entry.fileType}:${index}:${entry.source}`,
+      entry.source,
+      entry.source,
+      config.configPath!,
+      entry.fileType,
+      pattern,
+      segments
+    );
+    item.setDestination(entry.destination, entry.line);
+    return item;
+  });
+}
@@ -0,0 +1,139 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { RouteFileType, RouterType, PAGES_SPECIAL_FILES, DEFAULT_PAGE_EXTENSIONS, buildPagesFilePattern } from '../constants';
+import { RouteItem } from '../models';
+import { AppRouterFile, RouteScanOptions, buildRoutePath, createExcludeMatcher, determineOverallPattern, shouldSkipDirectory } from './routeUtils';
+import { getRouteShape } from './routeMatcher';
+
+export interface RouterConflict {
+  path: string;
+  appFile: AppRouterFile;
+  pagesFile: AppRouterFile;
+}
+
+/**
+ * Scan Pages Router files (every module under pages/ is a route)
+ */
+export async function scanPagesRouterFiles(pagesDir: string, options: RouteScanOptions = {}): Promise<AppRouterFile[]> {
+  const files: AppRouterFile[] = [];
+  const filePattern = buildPagesFilePattern(options.pageExtensions || DEFAULT_PAGE_EXTENSIONS);
+  const isExcluded = createExcludeMatcher(options.projectRoot || pagesDir, options.excludePatterns);
+
+  try {
+    await scanPagesDirectory(pagesDir, pagesDir, files, filePattern, isExcluded);
+  } catch (error) {
+    console.error('Error scanning pages router files:', error);
+  }
+
+  return files;
+}
+
+/**
+ * Recursively scan directory for Pages Router files
+ */
+async function scanPagesDirectory(
+  currentDir: string,
+  pagesRoot: string,
+  files: AppRouterFile[],
+  filePattern: RegExp,
+  isExcluded: (fullPath: string) => boolean
+): Promise<void> {
+  try {
+    const entries = await fs.promises.readdir(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentDir, entry.name);
+      if (isExcluded(fullPath)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        if (shouldSkipDirectory(entry.name)) {
+          continue;
+        }
+
+        await scanPagesDirectory(fullPath, pagesRoot, files, filePattern, isExcluded);
+      } else if (entry.isFile()) {
+        // The whole page extension is stripped, so about.page.tsx serves /about
+        const match = filePattern.exec(entry.name);
+        if (match) {
+          files.push(createPagesRouterFile(fullPath, pagesRoot, match[1]));
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error scanning directory ${currentDir}:`, error);
+  }
+}
+
+/**
+ * Describe a pages/ module: pages/blog/[id].tsx serves /blog/[id], index files serve their folder
+ */
+function createPagesRouterFile(filePath: string, pagesRoot: string, extension: string): AppRouterFile {
+  const relativePath = path.relative(pagesRoot, filePath);
+  const withoutExtension = relativePath.slice(0, -(extension.length + 1));
+  const parts = withoutExtension.split(path.sep);
+
+  const specialType = parts.length === 1 ? PAGES_SPECIAL_FILES[parts[0]] : undefined;
+  const segments = specialType || parts[parts.length - 1] !== 'index' ? parts : parts.slice(0, -1);
+  const fileType = specialType || (parts[0] === 'api' ? RouteFileType.Route : RouteFileType.Page);
+
+  return {
+    filePath,
+    relativePath,
+    fileName: path.basename(filePath),
+    fileType,
+    segments: specialType ? [] : segments,
+    routePath: specialType ? `/${parts[0]}` : buildRoutePath(segments),
+    router: RouterType.Pages
+  };
+}
+
+/**
+ * Build route items for Pages Router files (flat: pages/ has no nested layouts)
+ */
+export function buildPagesRouteItems(files: AppRouterFile[], idPrefix: string = ''): RouteItem[] {
+  return files.map(file => {
+    const isSpecial = file.fileType === RouteFileType.CustomApp
+      || file.fileType === RouteFileType.CustomDocument
+      || (file.segments.length === 0 && file.routePath !== '/');
+    const label = isSpecial ? file.routePath.slice(1) : file.routePath;
+
+    return new RouteItem(
+      `${idPrefix}pages:${file.relativePath.split(path.sep).join('/')}`,
+      label,
+      file.routePath,
+      file.filePath,
+      file.fileType,
+      determineOverallPattern(file.segments),
+      file.segments,
+      undefined,
+      undefined,
+      RouterType.Pages
+    );
+  });
+}
+
+/**
+ * Find URLs served by both the App Router and the Pages Router (Next.js rejects these at build time)
+ */
+export function findRouterConflicts(appFiles: AppRouterFile[], pagesFiles: AppRouterFile[]): RouterConflict[] {
+  const isRoutable = (file: AppRouterFile) =>
+    file.fileType === RouteFileType.Page || file.fileType === RouteFileType.Route;
+
+  const appByShape = new Map<string, AppRouterFile[]>();
+  for (const file of appFiles.filter(isRoutable)) {
+    const shape = getRouteShape(file.segments);
+    appByShape.set(shape, [...(appByShape.get(shape) || []), file]);
+  }
+
+  const conflicts: RouterConflict[] = [];
+  for (const pagesFile of pagesFiles.filter(isRoutable)) {
+    const shape = getRouteShape(pagesFile.segments);
+    for (const appFile of appByShape.get(shape) || []) {
+      conflicts.push({ path: shape, appFile, pagesFile });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,156 @@
+import { RouteFileType, ROUTE_PATTERNS } from '../constants';
+import { AppRouterFile, buildRoutePath, isInterceptingRoute } from './routeUtils';
+import { getRoutableSegments, getRouteShape, matchRoutes } from './routeMatcher';
+
+// The implicit slot holding a layout's nested pages
+export const CHILDREN_SLOT = 'children';
+
+export interface ParallelSlot {
+  // Slot name without @, or `children`
+  name: string;
+  // Folder segments of the slot (the layout's own segments for `children`)
+  segments: string[];
+  defaultFile?: AppRouterFile;
+}
+
+export type SlotCellKind = 'page' | 'default' | 'missing';
+
+export interface SlotMatrixCell {
+  slot: string;
+  kind: SlotCellKind;
+  file?: AppRouterFile;
+}
+
+export interface SlotMatrixRow {
+  // URL rendered by the layout, e.g. /dashboard/settings
+  path: string;
+  cells: SlotMatrixCell[];
+}
+
+export interface LayoutSlotMatrix {
+  layout: AppRouterFile;
+  // `children` first, then named slots alphabetically
+  slots: ParallelSlot[];
+  rows: SlotMatrixRow[];
+}
+
+interface SlotPage {
+  file: AppRouterFile;
+  // Segments below the slot folder
+  segments: string[];
+  fileType: RouteFileType;
+}
+
+/**
+ * Build a slot matrix for every layout that renders named parallel slots:
+ * for each URL under the layout, which page (or default) each slot renders
+ */
+export function buildSlotMatrices(files: AppRouterFile[]): LayoutSlotMatrix[] {
+  const matrices: LayoutSlotMatrix[] = [];
+
+  for (const layout of files.filter(file => file.fileType === RouteFileType.Layout)) {
+    const depth = layout.segments.length;
+    const nested = files.filter(file => file !== layout && isSegmentPrefix(layout.segments, file.segments));
+
+    const slotNames = [...new Set(nested
+      .map(file => file.segments[depth])
+      .filter(segment => segment !== undefined && ROUTE_PATTERNS.PARALLEL_ROUTE.test(segment))
+      .map(segment => segment.slice(1)))]
+      .sort();
+    if (slotNames.length === 0) {
+      continue;
+    }
+
+    const slots: ParallelSlot[] = [CHILDREN_SLOT, ...slotNames].map(name => {
+      const segments = name === CHILDREN_SLOT ? layout.segments : [...layout.segments, `@${name}`];
+      return {
+        name,
+        segments,
+        defaultFile: nested.find(file =>
+          file.fileType === RouteFileType.Default && file.segments.length === segments.length && isSegmentPrefix(segments, file.segments)
+        )
+      };
+    });
+
+    // Pages rendered in each slot, with segments relative to the slot folder
+    const pagesBySlot = new Map<string, SlotPage[]>(slots.map(slot => [slot.name, []]));
+    for (const file of nested) {
+      // Intercepted pages only render on soft navigation, so they don't shape the matrix
+      if (file.fileType !== RouteFileType.Page || file.segments.some(isInterceptingRoute)) {
+        continue;
+      }
+      const slotSegment = file.segments[depth];
+      const inSlot = slotSegment !== undefined && ROUTE_PATTERNS.PARALLEL_ROUTE.test(slotSegment);
+      pagesBySlot.get(inSlot ? slotSegment.slice(1) : CHILDREN_SLOT)!.push({
+        file,
+        segments: file.segments.slice(inSlot ? depth + 1 : depth),
+        fileType: file.fileType
+      });
+    }
+
+    // One row per URL shape any slot can render
+    const rowSegments = new Map<string, string[]>();
+    for (const page of [...pagesBySlot.values()].flat()) {
+      const shape = getRouteShape(page.segments);
+      if (!rowSegments.has(shape)) {
+        rowSegments.set(shape, getRoutableSegments(page.segments));
+      }
+    }
+
+    const rows = [...rowSegments.values()]
+      .sort((a, b) => a.length - b.length || a.join('/').localeCompare(b.join('/')))
+      .map(segments => ({
+        path: buildRoutePath([...layout.segments, ...segments]),
+        cells: slots.map(slot => resolveSlotCell(slot, segments, pagesBySlot.get(slot.name)!))
+      }));
+
+    matrices.push({ layout, slots, rows });
+  }
+
+  return matrices;
+}
+
+/**
+ * Slots without a default.tsx and the URLs where they have nothing to render,
+ * which 404 on hard navigation
+ */
+export function findSlotsMissingDefault(matrix: LayoutSlotMatrix): { slot: ParallelSlot; paths: string[] }[] {
+  return matrix.slots
+    .map(slot => ({
+      slot,
+      paths: matrix.rows
+        .filter(row => row.cells.some(cell => cell.slot === slot.name && cell.kind === 'missing'))
+        .map(row => row.path)
+    }))
+    .filter(entry => entry.paths.length > 0);
+}
+
+/**
+ * Pick what a slot renders for a URL: its best matching page, else its default
+ */
+function resolveSlotCell(slot: ParallelSlot, rowSegments: string[], pages: SlotPage[]): SlotMatrixCell {
+  const match = matchRoutes(toSamplePath(rowSegments), pages)[0];
+  if (match) {
+    return { slot: slot.name, kind: 'page', file: match.route.file };
+  }
+  if (slot.defaultFile) {
+    return { slot: slot.name, kind: 'default', file: slot.defaultFile };
+  }
+  return { slot: slot.name, kind: 'missing' };
+}
+
+/**
+ * A concrete URL for a route pattern, each parameter standing in for its value
+ */
+function toSamplePath(segments: string[]): string {
+  return '/' + segments.map(segment => {
+    const param = ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.exec(segment)
+      || ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(segment)
+      || ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(segment);
+    return param ? `:${param[1]}` : segment;
+  }).join('/');
+}
+
+function isSegmentPrefix(prefix: string[], segments: string[]): boolean {
+  return prefix.length <= segments.length && prefix.every((segment, index) => segments[index] === segment);
+}
@@ -73,6 +73,21 @@ export function replaceRouteParameters(routePath: string, parameters: RouteParam
   return replacedPath;
 }
 
+/**
+ * Fill a route path from a param set such as generateStaticParams returns
+ * @param routePath - The route path (e.g., "/docs/[...slug]")
+ * @param values - Values by parameter name; arrays fill catch-all segments
+ * @returns The concrete path (e.g., "/docs/guides/routing")
+ */
+export function applyParameterValues(routePath: string, values: Record<string, string | string[]>): string {
+  const parameters = Object.entries(values).map(([key, value]) => ({
+    id: key,
+    key,
+    value: Array.isArray(value) ? value.join('/') : value
+  }));
+  return replaceRouteParameters(routePath, parameters);
+}
+
 /**
  * Extract dynamic parameter names from a Next.js route path
  * @param routePath - The route path (e.g., "/blog/[slug]/[id]")
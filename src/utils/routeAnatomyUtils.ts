@@ -0,0 +1,99 @@
+import { RouteFileType, ROUTE_PATTERNS } from '../constants';
+import { AppRouterFile } from './routeUtils';
+
+export interface RouteAnatomyEntry {
+  file: AppRouterFile;
+  // Parallel slot name (without @) for slot defaults
+  slot?: string;
+}
+
+export interface RouteAnatomy {
+  target: AppRouterFile;
+  // Layouts and templates from the root down, the target last
+  chain: RouteAnatomyEntry[];
+  // Nearest loading, error, not-found and global-error
+  boundaries: RouteAnatomyEntry[];
+  // default files of the other parallel slots rendered by layouts in the chain
+  slotDefaults: RouteAnatomyEntry[];
+}
+
+// Files that render as the leaf of a layout chain
+const ANATOMY_TARGET_TYPES = [RouteFileType.Page, RouteFileType.Default];
+
+// Nearest-ancestor boundaries, in the order Next.js nests them inside a segment
+const BOUNDARY_TYPES = [RouteFileType.Error, RouteFileType.Loading, RouteFileType.NotFound];
+
+/**
+ * Check whether a file renders through a layout chain (pages and slot defaults)
+ */
+export function canResolveRouteAnatomy(file: AppRouterFile): boolean {
+  return ANATOMY_TARGET_TYPES.includes(file.fileType);
+}
+
+/**
+ * Resolve everything Next.js wraps around a page: the layout/template chain
+ * from the root segment down, the nearest loading/error/not-found boundaries,
+ * the root global-error and the defaults of sibling parallel slots
+ */
+export function resolveRouteAnatomy(target: AppRouterFile, files: AppRouterFile[]): RouteAnatomy {
+  const bySegment = new Map<string, AppRouterFile[]>();
+  for (const file of files) {
+    const key = file.segments.join('/');
+    bySegment.set(key, [...(bySegment.get(key) || []), file]);
+  }
+  const findAt = (segments: string[], fileType: RouteFileType): AppRouterFile | undefined =>
+    (bySegment.get(segments.join('/')) || []).find(file => file.fileType === fileType);
+
+  const prefixes = target.segments.map((_, index) => target.segments.slice(0, index + 1));
+  prefixes.unshift([]);
+
+  const chain: RouteAnatomyEntry[] = [];
+  for (const prefix of prefixes) {
+    for (const fileType of [RouteFileType.Layout, RouteFileType.Template]) {
+      const file = findAt(prefix, fileType);
+      if (file) {
+        chain.push({ file });
+      }
+    }
+  }
+  chain.push({ file: target });
+
+  const boundaries: RouteAnatomyEntry[] = [];
+  for (const fileType of BOUNDARY_TYPES) {
+    const nearest = [...prefixes].reverse()
+      .map(prefix => findAt(prefix, fileType))
+      .find((file): file is AppRouterFile => file !== undefined);
+    if (nearest) {
+      boundaries.push({ file: nearest });
+    }
+  }
+  const globalError = findAt([], RouteFileType.GlobalError);
+  if (globalError) {
+    boundaries.push({ file: globalError });
+  }
+
+  // Slots rendered next to the target by each layout, minus the slot the target lives in
+  const slotDefaults: RouteAnatomyEntry[] = [];
+  for (const prefix of prefixes) {
+    if (!findAt(prefix, RouteFileType.Layout)) {
+      continue;
+    }
+
+    const ownSlot = target.segments[prefix.length];
+    for (const file of files) {
+      const slotSegment = file.segments[prefix.length];
+      const slot = slotSegment && ROUTE_PATTERNS.PARALLEL_ROUTE.exec(slotSegment);
+      if (
+        slot &&
+        slotSegment !== ownSlot &&
+        file.fileType === RouteFileType.Default &&
+        file.segments.length === prefix.length + 1 &&
+        prefix.every((segment, index) => file.segments[index] === segment)
+      ) {
+        slotDefaults.push({ file, slot: slot[1] });
+      }
+    }
+  }
+
+  return { target, chain, boundaries, slotDefaults };
+}
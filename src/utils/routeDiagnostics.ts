@@ -0,0 +1,208 @@
+import { RouteFileType, ROUTE_PATTERNS } from '../constants';
+import { AppRouterFile } from './routeUtils';
+import { getRoutableSegments, getRouteShape } from './routeMatcher';
+import { findRouterConflicts } from './pagesRouterUtils';
+import { buildSlotMatrices, findSlotsMissingDefault, CHILDREN_SLOT } from './parallelRouteUtils';
+
+export enum RouteProblemKind {
+  DuplicateRoute = 'duplicate-route',
+  DynamicNameMismatch = 'dynamic-name-mismatch',
+  OptionalCatchAllSpecificity = 'optional-catch-all-specificity',
+  RouterConflict = 'router-conflict',
+  MissingSlotDefault = 'missing-slot-default'
+}
+
+export interface RouteProblem {
+  kind: RouteProblemKind;
+  message: string;
+  path: string;
+  filePaths: string[];
+}
+
+/**
+ * Find route definitions Next.js rejects at build time: several files serving
+ * the same URL, sibling dynamic segments with different names, optional
+ * catch-alls shadowing their parent page, and App/Pages Router overlaps.
+ * Parallel slots without a default, which 404 on hard navigation, are reported too.
+ */
+export function analyzeRouteProblems(appFiles: AppRouterFile[], pagesFiles: AppRouterFile[] = []): RouteProblem[] {
+  return [
+    ...findDuplicateRoutes(appFiles),
+    ...findDynamicNameMismatches(appFiles),
+    ...findOptionalCatchAllShadows(appFiles),
+    ...findMissingSlotDefaults(appFiles),
+    ...findRouterConflicts(appFiles, pagesFiles).map(conflict => ({
+      kind: RouteProblemKind.RouterConflict,
+      message: `App Router and Pages Router both define ${conflict.path}`,
+      path: conflict.path,
+      filePaths: [conflict.appFile.filePath, conflict.pagesFile.filePath]
+    }))
+  ];
+}
+
+/**
+ * Pages and route handlers outside parallel slots, the files that own a URL
+ */
+function getUrlOwners(files: AppRouterFile[]): AppRouterFile[] {
+  return files.filter(file =>
+    (file.fileType === RouteFileType.Page || file.fileType === RouteFileType.Route) &&
+    !file.segments.some(segment => ROUTE_PATTERNS.PARALLEL_ROUTE.test(segment))
+  );
+}
+
+/**
+ * Several pages/route handlers resolving to the same URL, e.g. (marketing)/about and (shop)/about
+ */
+function findDuplicateRoutes(files: AppRouterFile[]): RouteProblem[] {
+  const byShape = groupBy(getUrlOwners(files), file => getRouteShape(file.segments));
+  const problems: RouteProblem[] = [];
+
+  for (const [shape, group] of byShape) {
+    if (group.length < 2) {
+      continue;
+    }
+
+    const hasPage = group.some(file => file.fileType === RouteFileType.Page);
+    const hasRoute = group.some(file => file.fileType === RouteFileType.Route);
+    const message = hasPage && hasRoute
+      ? `A page and a route handler both resolve to ${shape}`
+      : `${group.length} ${hasRoute ? 'route handlers' : 'pages'} resolve to the same path ${shape}: ${group.map(file => file.relativePath).join(', ')}`;
+
+    problems.push({
+      kind: RouteProblemKind.DuplicateRoute,
+      message,
+      path: shape,
+      filePaths: group.map(file => file.filePath)
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Dynamic segments at the same URL level with different names, e.g. [id] next to [slug].
+ * Like Next.js, [name] segments are only compared with each other, and catch-alls
+ * ([...name], [[...name]]) with each other, so [id] next to [...rest] is fine.
+ * A required and an optional catch-all at the same level are rejected even with the same name.
+ */
+function findDynamicNameMismatches(files: AppRouterFile[]): RouteProblem[] {
+  // Dynamic path at the level (`/blog/[]`, `/blog/[...]`) -> parameter name -> first file found under that name
+  const levels = new Map<string, Map<string, AppRouterFile>>();
+  // Same, keyed by the segment itself ([...slug], [[...slug]])
+  const levelSegments = new Map<string, Map<string, AppRouterFile>>();
+
+  for (const file of files) {
+    const segments = getRoutableSegments(file.segments);
+    segments.forEach((segment, index) => {
+      const name = getDynamicName(segment);
+      if (!name) {
+        return;
+      }
+
+      const prefix = getRouteShape(segments.slice(0, index));
+      const marker = ROUTE_PATTERNS.DYNAMIC_SEGMENT.test(segment) ? '[]' : '[...]';
+      const path = prefix === '/' ? `/${marker}` : `${prefix}/${marker}`;
+      const names = levels.get(path) || new Map<string, AppRouterFile>();
+      if (!names.has(name)) {
+        names.set(name, file);
+      }
+      levels.set(path, names);
+
+      const sameLevel = levelSegments.get(path) || new Map<string, AppRouterFile>();
+      if (!sameLevel.has(segment)) {
+        sameLevel.set(segment, file);
+      }
+      levelSegments.set(path, sameLevel);
+    });
+  }
+
+  const problems: RouteProblem[] = [];
+  for (const [path, names] of levels) {
+    if (names.size >= 2) {
+      const quoted = [...names.keys()].map(name => `'${name}'`).join(' !== ');
+      problems.push({
+        kind: RouteProblemKind.DynamicNameMismatch,
+        message: `Different slug names for the same dynamic path ${path} (${quoted})`,
+        path,
+        filePaths: [...names.values()].map(file => file.filePath)
+      });
+      continue;
+    }
+
+    const segments = [...(levelSegments.get(path) || new Map<string, AppRouterFile>())];
+    const required = segments.find(([segment]) => ROUTE_PATTERNS.CATCH_ALL_SEGMENT.test(segment));
+    const optional = segments.find(([segment]) => ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(segment));
+    if (required && optional) {
+      problems.push({
+        kind: RouteProblemKind.DynamicNameMismatch,
+        message: `A required and an optional catch-all at the same level ${path} (${required[0]} and ${optional[0]})`,
+        path,
+        filePaths: [required[1].filePath, optional[1].filePath]
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * An optional catch-all page already serves its parent path, so a page there is ambiguous
+ */
+function findOptionalCatchAllShadows(files: AppRouterFile[]): RouteProblem[] {
+  const owners = getUrlOwners(files);
+  const byShape = groupBy(owners, file => getRouteShape(file.segments));
+  const problems: RouteProblem[] = [];
+
+  for (const file of owners) {
+    const segments = getRoutableSegments(file.segments);
+    const last = segments[segments.length - 1];
+    if (!last || !ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(last)) {
+      continue;
+    }
+
+    const parentShape = getRouteShape(segments.slice(0, -1));
+    for (const shadowed of byShape.get(parentShape) || []) {
+      problems.push({
+        kind: RouteProblemKind.OptionalCatchAllSpecificity,
+        message: `${shadowed.relativePath} has the same specificity as the optional catch-all ${file.relativePath}`,
+        path: parentShape,
+        filePaths: [shadowed.filePath, file.filePath]
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Slots with nothing to render for some URL of their layout and no default.tsx to fall back on
+ */
+function findMissingSlotDefaults(files: AppRouterFile[]): RouteProblem[] {
+  return buildSlotMatrices(files).flatMap(matrix =>
+    findSlotsMissingDefault(matrix).map(({ slot, paths }) => ({
+      kind: RouteProblemKind.MissingSlotDefault,
+      message: `${slot.name === CHILDREN_SLOT ? CHILDREN_SLOT : `@${slot.name}`} slot of ${matrix.layout.relativePath} has no default.tsx; hard navigation to ${paths.join(', ')} renders a 404`,
+      path: matrix.layout.routePath,
+      filePaths: [matrix.layout.filePath]
+    }))
+  );
+}
+
+/**
+ * Get the parameter name of a dynamic, catch-all or optional catch-all segment
+ */
+function getDynamicName(segment: string): string | null {
+  const match = ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.exec(segment)
+    || ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(segment)
+    || ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(segment);
+  return match ? match[1] : null;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return groups;
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import { HttpMethod, RouteHandlerMethod } from '../constants';
+import { stripComments } from './nextConfigUtils';
+
+const HTTP_METHOD_NAMES = Object.values(HttpMethod) as string[];
+
+/**
+ * Read the HTTP methods a route handler file exports
+ */
+export async function loadRouteHandlerMethods(filePath: string): Promise<RouteHandlerMethod[]> {
+  try {
+    const source = await fs.promises.readFile(filePath, 'utf8');
+    return parseRouteHandlerMethods(source);
+  } catch (error) {
+    console.error(`Failed to read route handler ${filePath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Find exported HTTP method handlers in route handler source. Handles
+ * `export (async) function GET`, `export const POST = ...`,
+ * `export const { GET, POST } = handlers` and `export { handler as GET }`.
+ * Commented-out and type-only exports are ignored.
+ */
+export function parseRouteHandlerMethods(source: string): RouteHandlerMethod[] {
+  const cleaned = stripComments(source);
+  const found = new Map<HttpMethod, number>();
+  const add = (name: string, index: number) => {
+    if (HTTP_METHOD_NAMES.includes(name) && !found.has(name as HttpMethod)) {
+      found.set(name as HttpMethod, lineAt(source, index));
+    }
+  };
+
+  const declaration = /export\s+(?:async\s+)?(?:function\s*\*?|const|let|var)\s+([A-Z]+)\b/g;
+  for (const match of cleaned.matchAll(declaration)) {
+    add(match[1], match.index + match[0].length - match[1].length);
+  }
+
+  // export const { GET, POST } = handlers
+  const destructured = /export\s+(?:const|let|var)\s*\{([^}]*)\}\s*=/g;
+  for (const match of cleaned.matchAll(destructured)) {
+    addListedNames(match[1], match.index + match[0].indexOf('{') + 1, add);
+  }
+
+  // export { handler as GET, POST } (optionally re-exported from another module), not `export type { ... }`
+  const named = /export\s*\{([^}]*)\}/g;
+  for (const match of cleaned.matchAll(named)) {
+    addListedNames(match[1], match.index + match[0].indexOf('{') + 1, add);
+  }
+
+  return [...found.entries()]
+    .map(([method, line]) => ({ method, line }))
+    .sort((a, b) => HTTP_METHOD_NAMES.indexOf(a.method) - HTTP_METHOD_NAMES.indexOf(b.method));
+}
+
+/**
+ * Register the exported names of a `{ a, b as GET, POST: alias }` list
+ */
+function addListedNames(list: string, offset: number, add: (name: string, index: number) => void): void {
+  const entry = /(type\s+)?(?:\w+\s+as\s+)?(\w+)(?:\s*:\s*\w+)?/g;
+  for (const match of list.matchAll(entry)) {
+    // `export { type GET }` exports only a type
+    if (match[1]) {
+      continue;
+    }
+    // In destructuring `{ GET: get }` the exported binding is the alias, in export lists it's after `as`
+    const alias = /:\s*(\w+)$/.exec(match[0]);
+    add(alias ? alias[1] : match[2], offset + match.index);
+  }
+}
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length - 1;
+}
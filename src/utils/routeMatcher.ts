@@ -0,0 +1,237 @@
+import { RouteFileType, ROUTE_PATTERNS } from '../constants';
+
+export type RouteParams = Record<string, string | string[]>;
+
+/**
+ * Minimal shape the matcher needs, satisfied by both RouteItem and AppRouterFile
+ */
+export interface MatchableRoute {
+  segments: string[];
+  fileType: RouteFileType;
+}
+
+export interface RouteMatchCandidate<T extends MatchableRoute = MatchableRoute> {
+  route: T;
+  params: RouteParams;
+  score: number;
+  slot?: string;
+}
+
+/**
+ * Weight of the route segment that consumed each URL segment (higher wins).
+ * Next.js resolves static segments before dynamic, dynamic before catch-all
+ * and catch-all before optional catch-all, comparing level by level.
+ */
+const SEGMENT_WEIGHT = {
+  static: 4,
+  dynamic: 3,
+  catchAll: 2,
+  optionalCatchAll: 1
+} as const;
+
+const WEIGHT_BASE = 5;
+const MAX_SCORED_DEPTH = 16;
+
+/**
+ * Match a URL against routes, returning every candidate ordered by Next.js precedence
+ */
+export function matchRoutes<T extends MatchableRoute>(url: string, routes: T[]): RouteMatchCandidate<T>[] {
+  const urlSegments = getUrlPathSegments(url);
+  const candidates: RouteMatchCandidate<T>[] = [];
+
+  for (const route of routes) {
+    // Only pages and route handlers answer URLs
+    if (route.fileType !== RouteFileType.Page && route.fileType !== RouteFileType.Route) {
+      continue;
+    }
+
+    const result = matchSegments(urlSegments, getRoutableSegments(route.segments));
+    if (!result) {
+      continue;
+    }
+
+    const slot = route.segments.find(segment => ROUTE_PATTERNS.PARALLEL_ROUTE.test(segment));
+    candidates.push({
+      route,
+      params: result.params,
+      score: scoreWeights(result.weights),
+      slot: slot ? slot.slice(1) : undefined
+    });
+  }
+
+  return candidates.sort(compareCandidates);
+}
+
+/**
+ * Find the route Next.js would render for a URL
+ */
+export function findBestRouteMatch<T extends MatchableRoute>(url: string, routes: T[]): RouteMatchCandidate<T> | null {
+  return matchRoutes(url, routes)[0] || null;
+}
+
+/**
+ * Split a URL or pathname into decoded path segments
+ */
+export function getUrlPathSegments(url: string): string[] {
+  const pathname = cleanUrl(url);
+  return pathname === '/' ? [] : pathname.slice(1).split('/').map(safeDecode);
+}
+
+/**
+ * Drop segments that don't contribute to the URL (route groups, parallel slots)
+ */
+export function getRoutableSegments(segments: string[]): string[] {
+  return segments.filter(segment =>
+    !ROUTE_PATTERNS.ROUTE_GROUP.test(segment) && !ROUTE_PATTERNS.PARALLEL_ROUTE.test(segment)
+  );
+}
+
+/**
+ * Normalize route segments to the URL shape they serve, ignoring parameter names
+ * (blog/[id] and (shop)/blog/[slug] both become /blog/[])
+ */
+export function getRouteShape(segments: string[]): string {
+  const shape = getRoutableSegments(segments).map(segment => {
+    if (ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(segment)) {
+      return '[[...]]';
+    }
+    if (ROUTE_PATTERNS.CATCH_ALL_SEGMENT.test(segment)) {
+      return '[...]';
+    }
+    if (ROUTE_PATTERNS.DYNAMIC_SEGMENT.test(segment)) {
+      return '[]';
+    }
+    return segment;
+  });
+  return '/' + shape.join('/');
+}
+
+/**
+ * Clean URL for matching
+ */
+function cleanUrl(url: string): string {
+  // Remove protocol and domain if present; a path like /a://b has no scheme to strip
+  let path = url;
+  if (/^[a-z][\w+.-]*:\/\//i.test(url)) {
+    try {
+      path = new URL(url).pathname;
+    } catch {
+      // Malformed URL: match the raw text as a path
+    }
+  }
+
+  // Remove query params and hash
+  path = path.split('?')[0].split('#')[0];
+
+  // Ensure leading slash and normalize slashes
+  path = ('/' + path).replace(/\/+/g, '/');
+
+  // Remove trailing slash unless it's root
+  if (path !== '/' && path.endsWith('/')) {
+    path = path.slice(0, -1);
+  }
+
+  return path;
+}
+
+/**
+ * Decode a URL segment, keeping the raw value if it is malformed
+ */
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Match URL segments against route segments, recording the weight of each consumed URL segment
+ */
+function matchSegments(
+  urlSegments: string[],
+  routeSegments: string[]
+): { params: RouteParams; weights: number[] } | null {
+  const params: RouteParams = {};
+  const weights: number[] = [];
+  let urlIndex = 0;
+
+  for (const routeSegment of routeSegments) {
+    const optionalCatchAll = ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.exec(routeSegment);
+    if (optionalCatchAll) {
+      // Optional catch-all matches any remaining segments, including none (the bare parent path)
+      const rest = urlSegments.slice(urlIndex);
+      if (rest.length > 0) {
+        params[optionalCatchAll[1]] = rest;
+      }
+      weights.push(...rest.map(() => SEGMENT_WEIGHT.optionalCatchAll));
+      return { params, weights };
+    }
+
+    const catchAll = ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(routeSegment);
+    if (catchAll) {
+      // Catch-all must match at least one segment
+      const rest = urlSegments.slice(urlIndex);
+      if (rest.length === 0) {
+        return null;
+      }
+      params[catchAll[1]] = rest;
+      weights.push(...rest.map(() => SEGMENT_WEIGHT.catchAll));
+      return { params, weights };
+    }
+
+    if (urlIndex >= urlSegments.length) {
+      return null;
+    }
+
+    const dynamic = ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(routeSegment);
+    if (dynamic) {
+      // Dynamic segment matches any single segment
+      params[dynamic[1]] = urlSegments[urlIndex];
+      weights.push(SEGMENT_WEIGHT.dynamic);
+    } else if (urlSegments[urlIndex] === routeSegment) {
+      weights.push(SEGMENT_WEIGHT.static);
+    } else {
+      return null;
+    }
+
+    urlIndex++;
+  }
+
+  // All route segments matched, URL should be fully consumed
+  return urlIndex === urlSegments.length ? { params, weights } : null;
+}
+
+/**
+ * Fold per-level weights into a single comparable number (earlier levels dominate)
+ */
+function scoreWeights(weights: number[]): number {
+  let score = 0;
+  for (let i = 0; i < MAX_SCORED_DEPTH; i++) {
+    score = score * WEIGHT_BASE + (weights[i] || 0);
+  }
+  return score;
+}
+
+/**
+ * Order candidates best first
+ */
+function compareCandidates(a: RouteMatchCandidate<MatchableRoute>, b: RouteMatchCandidate<MatchableRoute>): number {
+  if (a.score !== b.score) {
+    return b.score - a.score;
+  }
+
+  // Same specificity: a route that needed an empty optional catch-all loses to an exact one
+  const aLength = getRoutableSegments(a.route.segments).length;
+  const bLength = getRoutableSegments(b.route.segments).length;
+  if (aLength !== bLength) {
+    return aLength - bLength;
+  }
+
+  // The main page renders before parallel slot pages for the same URL
+  if (!a.slot !== !b.slot) {
+    return a.slot ? 1 : -1;
+  }
+
+  return 0;
+}
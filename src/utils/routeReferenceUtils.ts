@@ -0,0 +1,422 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { METADATA_FILE_TYPES, ROUTE_PATTERNS, RouteFileType } from '../constants';
+import { AppRouterFile } from './routeUtils';
+import { NextConfigInfo, sourceToSegments, stripComments, toRoutePathname } from './nextConfigUtils';
+import { MatchableRoute, getRoutableSegments, matchRoutes } from './routeMatcher';
+import { fuzzyScore } from './fuzzySearch';
+
+// Where an href was written: <Link href>, router.push/replace, or a next/navigation or next/cache call
+export type RouteReferenceKind = 'Link' | 'push' | 'replace' | 'redirect' | 'permanentRedirect' | 'revalidatePath';
+
+// An href literal found in a module
+export interface HrefReference {
+  kind: RouteReferenceKind;
+  // The href as written, template expressions included (`/blog/${post.slug}`)
+  href: string;
+  // Template literal with `${}` expressions, matched as dynamic segments
+  dynamic: boolean;
+  // 0-based position of the first href character, after the opening quote
+  line: number;
+  character: number;
+}
+
+export interface RouteReference extends HrefReference {
+  filePath: string;
+  // Pages and route handlers the href resolves to, empty when no route matches
+  targets: string[];
+}
+
+// Stands in for template expressions: never equal to a static folder name, so only dynamic segments match it
+const TEMPLATE_PLACEHOLDER = '\u0000';
+
+// Functions taking a path, by the module exporting them
+const NAVIGATION_FUNCTIONS: Record<string, RouteReferenceKind[]> = {
+  'next/navigation': ['redirect', 'permanentRedirect'],
+  'next/cache': ['revalidatePath']
+};
+
+// Cheap test for modules that cannot hold any reference
+const REFERENCE_HINT = /href|push|replace|redirect|revalidatePath/;
+
+// An href literal and its offset in the module source
+export interface HrefLiteral {
+  kind: RouteReferenceKind;
+  href: string;
+  dynamic: boolean;
+  // Offset of the first href character, after the opening quote
+  start: number;
+}
+
+/**
+ * Find the absolute hrefs a module passes to `<Link>`, `useRouter()` push/replace,
+ * redirect, permanentRedirect and revalidatePath. Only string and template literals
+ * are read; hrefs built from variables are left out.
+ */
+export function parseHrefReferences(source: string): HrefReference[] {
+  const lineStarts = [0];
+  for (let index = 0; index < source.length; index++) {
+    if (source[index] === '\n') {
+      lineStarts.push(index + 1);
+    }
+  }
+
+  return scanHrefLiterals(source)
+    .filter(literal => isRouteHref(literal.href))
+    .map(literal => {
+      let line = 0;
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= literal.start) {
+        line++;
+      }
+      return { kind: literal.kind, href: literal.href, dynamic: literal.dynamic, line, character: literal.start - lineStarts[line] };
+    });
+}
+
+/**
+ * The href literal an offset falls in, including empty and partly typed ones
+ */
+export function findHrefAt(source: string, offset: number): HrefLiteral | null {
+  return scanHrefLiterals(source).find(literal => literal.start <= offset && offset <= literal.start + literal.href.length) || null;
+}
+
+/**
+ * Every href literal of a module in source order, whatever it points at
+ */
+function scanHrefLiterals(source: string): HrefLiteral[] {
+  const cleaned = stripComments(source);
+  const literals: HrefLiteral[] = [];
+  const add = (kind: RouteReferenceKind, index: number) => {
+    const literal = readHrefArgument(cleaned, index, kind === 'Link');
+    if (literal && !literals.some(other => other.start === literal.start)) {
+      literals.push({ kind, ...literal });
+    }
+  };
+
+  // <Link href="/blog">, also under the local name of the next/link default import
+  const linkNames = new Set(['Link']);
+  for (const match of cleaned.matchAll(/\bimport\s+([\w$]+)\s*(?:,\s*\{[^}]*\})?\s*from\s*(['"])next\/link\2/g)) {
+    linkNames.add(match[1]);
+  }
+  for (const match of cleaned.matchAll(/<([\w$.]+)(?=[\s/>])/g)) {
+    if (!linkNames.has(match[1])) {
+      continue;
+    }
+    const tagEnd = findTagEnd(cleaned, match.index + match[0].length);
+    const attribute = /(?:^|\s)href\s*=\s*/.exec(cleaned.slice(match.index + match[0].length, tagEnd));
+    if (attribute) {
+      add('Link', match.index + match[0].length + attribute.index + attribute[0].length);
+    }
+  }
+
+  // const router = useRouter(); router.push('/blog') / const { push } = useRouter() / Router.push from next/router
+  const routerNames = new Set<string>();
+  const routerMethods = new Map<string, RouteReferenceKind>();
+  for (const match of cleaned.matchAll(/\b(?:const|let|var)\s+([\w$]+)\s*=\s*useRouter\s*\(\s*\)/g)) {
+    routerNames.add(match[1]);
+  }
+  for (const match of cleaned.matchAll(/\b(?:const|let|var)\s*\{([^}]*)\}\s*=\s*useRouter\s*\(\s*\)/g)) {
+    for (const [imported, local] of parseBindings(match[1])) {
+      if (imported === 'push' || imported === 'replace') {
+        routerMethods.set(local, imported);
+      }
+    }
+  }
+  for (const match of cleaned.matchAll(/\bimport\s+([\w$]+)\s+from\s*(['"])next\/router\2/g)) {
+    routerNames.add(match[1]);
+  }
+  for (const match of cleaned.matchAll(/(?<![\w$.])([\w$]+|useRouter\s*\(\s*\))\s*\??\.\s*(push|replace)\s*\(/g)) {
+    if (routerNames.has(match[1]) || match[1].includes('(')) {
+      add(match[2] as RouteReferenceKind, match.index + match[0].length);
+    }
+  }
+
+  // redirect('/login'), permanentRedirect(...), revalidatePath(...), under their imported local names
+  const functionNames = new Map<string, RouteReferenceKind>(routerMethods);
+  for (const match of cleaned.matchAll(/\bimport\s*\{([^}]*)\}\s*from\s*(['"])(next\/navigation|next\/cache)\2/g)) {
+    for (const [imported, local] of parseBindings(match[1])) {
+      const kind = NAVIGATION_FUNCTIONS[match[3]].find(name => name === imported);
+      if (kind) {
+        functionNames.set(local, kind);
+      }
+    }
+  }
+  for (const match of cleaned.matchAll(/(?<![\w$.])([\w$]+)\s*\(/g)) {
+    const kind = functionNames.get(match[1]);
+    if (kind) {
+      add(kind, match.index + match[0].length);
+    }
+  }
+
+  return literals.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Index the route references of every candidate file, resolving each href to the routes serving it
+ */
+export async function collectRouteReferences<T extends MatchableRoute & { filePath: string }>(
+  candidateFiles: string[],
+  routeFiles: T[]
+): Promise<RouteReference[]> {
+  const references: RouteReference[] = [];
+  for (const filePath of candidateFiles) {
+    try {
+      const source = await fs.promises.readFile(filePath, 'utf8');
+      if (!REFERENCE_HINT.test(source)) {
+        continue;
+      }
+      for (const reference of parseHrefReferences(source)) {
+        const targets = matchHref(reference.href, routeFiles).map(route => route.filePath);
+        references.push({ ...reference, filePath, targets });
+      }
+    } catch (error) {
+      console.error(`Failed to read ${filePath}:`, error);
+    }
+  }
+  return references;
+}
+
+/**
+ * The routes an href renders: the best match, and the parallel slot pages rendered with it
+ */
+export function matchHref<T extends MatchableRoute>(href: string, routes: T[]): T[] {
+  const candidates = matchRoutes(toHrefPathname(href), routes);
+  return candidates.filter(candidate => candidate.score === candidates[0].score).map(candidate => candidate.route);
+}
+
+/**
+ * Hrefs no page or route handler renders and nothing else serves: not a metadata
+ * route, a next.config redirect or rewrite source, a locale-prefixed route or a public file
+ */
+export async function findDeadLinks(
+  references: RouteReference[],
+  files: AppRouterFile[],
+  config: NextConfigInfo,
+  projectRoot: string
+): Promise<RouteReference[]> {
+  const configSources = [...config.redirects, ...config.rewrites]
+    .filter(entry => entry.basePath !== false)
+    .map(entry => ({ segments: sourceToSegments(entry.source), fileType: RouteFileType.Page }));
+
+  const dead: RouteReference[] = [];
+  for (const reference of references) {
+    if (reference.targets.length > 0) {
+      continue;
+    }
+    const pathname = toHrefPathname(reference.href);
+    // Links don't carry basePath, but a locale prefix is part of the href
+    const unprefixed = toRoutePathname(pathname, { ...config, basePath: '' });
+    const served =
+      files.some(file => METADATA_FILE_TYPES.includes(file.fileType) && file.routePath === pathname) ||
+      matchRoutes(pathname, configSources).length > 0 ||
+      (unprefixed !== pathname && matchHref(unprefixed, files).length > 0) ||
+      (!reference.dynamic && await isPublicFile(projectRoot, pathname));
+    if (!served) {
+      dead.push(reference);
+    }
+  }
+  return dead;
+}
+
+/**
+ * Closest routes to a dead href, best first, as hrefs keeping its dynamic values, query and hash
+ */
+export function suggestHrefs(href: string, routes: MatchableRoute[], limit: number = 3): string[] {
+  const [pathname] = href.split(/[?#]/);
+  const suffix = href.slice(pathname.length);
+  const hrefSegments = pathname.split('/').filter(Boolean);
+
+  const scored = new Map<string, number>();
+  for (const route of routes) {
+    if (route.fileType !== RouteFileType.Page && route.fileType !== RouteFileType.Route) {
+      continue;
+    }
+    const candidate = fillRouteSegments(getRoutableSegments(route.segments), hrefSegments);
+    if (candidate === null || candidate === pathname) {
+      continue;
+    }
+    // Segment by segment, so a typo in one folder doesn't sink the values around it
+    const candidateSegments = candidate.split('/').filter(Boolean);
+    const depth = Math.max(hrefSegments.length, candidateSegments.length, 1);
+    let total = 0;
+    for (let index = 0; index < Math.min(hrefSegments.length, candidateSegments.length); index++) {
+      total += fuzzyScore(hrefSegments[index], candidateSegments[index]).score;
+    }
+    const score = total / depth;
+    if (score > 0 && score > (scored.get(candidate) ?? 0)) {
+      scored.set(candidate, score);
+    }
+  }
+
+  return [...scored.entries()]
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([candidate]) => candidate + suffix);
+}
+
+/**
+ * Write a route as an href, taking dynamic values from the href segments at the same depth;
+ * null when the href has no value for a required parameter
+ */
+function fillRouteSegments(routeSegments: string[], hrefSegments: string[]): string | null {
+  const filled: string[] = [];
+  for (const [index, segment] of routeSegments.entries()) {
+    if (ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(segment) || ROUTE_PATTERNS.CATCH_ALL_SEGMENT.test(segment)) {
+      const rest = hrefSegments.slice(index);
+      if (rest.length === 0 && ROUTE_PATTERNS.CATCH_ALL_SEGMENT.test(segment)) {
+        return null;
+      }
+      filled.push(...rest);
+      break;
+    }
+    if (ROUTE_PATTERNS.DYNAMIC_SEGMENT.test(segment)) {
+      if (index >= hrefSegments.length) {
+        return null;
+      }
+      filled.push(hrefSegments[index]);
+    } else {
+      filled.push(segment);
+    }
+  }
+  return `/${filled.join('/')}`;
+}
+
+async function isPublicFile(projectRoot: string, pathname: string): Promise<boolean> {
+  if (pathname === '/') {
+    return false;
+  }
+  try {
+    const publicDir = path.join(projectRoot, 'public');
+    const filePath = path.join(publicDir, decodeURIComponent(pathname));
+    return filePath.startsWith(publicDir + path.sep) && (await fs.promises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The pathname an href is matched by: template expressions become an unknown dynamic
+ * value, and route groups (allowed in revalidatePath) are dropped
+ */
+export function toHrefPathname(href: string): string {
+  const pathname = href.replace(/\$\{[^}]*\}?/g, TEMPLATE_PLACEHOLDER).split(/[?#]/)[0];
+  return pathname
+    .split('/')
+    .filter(segment => !ROUTE_PATTERNS.ROUTE_GROUP.test(segment))
+    .join('/') || '/';
+}
+
+/**
+ * Absolute paths only: external URLs, protocol-relative and relative hrefs don't name a route
+ */
+function isRouteHref(href: string): boolean {
+  return href.startsWith('/') && !href.startsWith('//');
+}
+
+/**
+ * Read the string or template literal at an href position, unwrapping a JSX attribute
+ * expression (`{'/blog'}`) and the pathname of a URL object (`{ pathname: '/blog/[slug]' }`)
+ */
+function readHrefArgument(source: string, index: number, attribute: boolean): { href: string; start: number; dynamic: boolean } | null {
+  let position = skipWhitespace(source, index);
+  const bareAttribute = attribute && source[position] !== '{';
+  if (attribute && !bareAttribute) {
+    position = skipWhitespace(source, position + 1);
+  }
+
+  if (source[position] === '{') {
+    const objectEnd = findClosingBrace(source, position);
+    const pathname = /(?:^|[{,\s])pathname\s*:\s*/.exec(source.slice(position + 1, objectEnd));
+    return pathname ? readLiteral(source, position + 1 + pathname.index + pathname[0].length) : null;
+  }
+
+  const literal = readLiteral(source, position);
+  if (!literal || bareAttribute) {
+    return literal;
+  }
+  // '/blog/' + slug and other expressions are not literal hrefs
+  const next = source[skipWhitespace(source, literal.start + literal.href.length + 1)];
+  return next === ',' || next === ')' || next === '}' ? literal : null;
+}
+
+function readLiteral(source: string, index: number): { href: string; start: number; dynamic: boolean } | null {
+  const position = skipWhitespace(source, index);
+  const quote = source[position];
+  if (quote !== '\'' && quote !== '"' && quote !== '`') {
+    return null;
+  }
+
+  let dynamic = false;
+  for (let end = position + 1; end < source.length; end++) {
+    const char = source[end];
+    if (char === '\\') {
+      end++;
+    } else if (char === quote) {
+      return { href: source.slice(position + 1, end), start: position + 1, dynamic };
+    } else if (char === '\n' && quote !== '`') {
+      return null;
+    } else if (quote === '`' && char === '$' && source[end + 1] === '{') {
+      dynamic = true;
+      end = findClosingBrace(source, end + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Index of the `>` closing a JSX opening tag, skipping attribute expressions and strings
+ */
+function findTagEnd(source: string, index: number): number {
+  for (let position = index; position < source.length; position++) {
+    const char = source[position];
+    if (char === '{') {
+      position = findClosingBrace(source, position);
+    } else if (char === '"' || char === '\'') {
+      const end = source.indexOf(char, position + 1);
+      position = end === -1 ? source.length : end;
+    } else if (char === '>') {
+      return position;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Index of the brace closing the one at `index`, skipping strings and nested braces
+ */
+function findClosingBrace(source: string, index: number): number {
+  let depth = 0;
+  for (let position = index; position < source.length; position++) {
+    const char = source[position];
+    if (char === '"' || char === '\'' || char === '`') {
+      for (position++; position < source.length && source[position] !== char; position++) {
+        if (source[position] === '\\') {
+          position++;
+        }
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return position;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Imported or destructured names and their local bindings: `push, replace: go` or `redirect as go`
+ */
+function parseBindings(clause: string): [string, string][] {
+  return clause
+    .split(',')
+    .map(binding => /^\s*(?:type\s+)?([\w$]+)(?:\s*(?:as|:)\s*([\w$]+))?\s*$/.exec(binding))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => [match[1], match[2] || match[1]]);
+}
+
+function skipWhitespace(source: string, index: number): number {
+  let position = index;
+  while (position < source.length && /\s/.test(source[position])) {
+    position++;
+  }
+  return position;
+}
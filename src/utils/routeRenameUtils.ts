@@ -0,0 +1,163 @@
+import { ROUTE_PATTERNS } from '../constants';
+import { getRoutableSegments, getRouteShape } from './routeMatcher';
+
+// A route folder renamed from one segment to another
+export interface SegmentRename {
+  // Segments above the renamed folder, relative to the router directory
+  parentSegments: string[];
+  oldName: string;
+  newName: string;
+}
+
+/**
+ * Rewrite an href pointing below a renamed folder; null when the href doesn't change.
+ * Static names and bracket patterns equal to the old name are replaced, folders
+ * turned into or out of route groups drop or add their URL segment, and template
+ * values of dynamic segments are kept.
+ */
+export function renameHrefSegment(href: string, rename: SegmentRename): string | null {
+  const pathEnd = findTopLevel(href, char => char === '?' || char === '#');
+  const parts = splitTopLevel(href.slice(0, pathEnd));
+  const suffix = href.slice(pathEnd);
+  if (parts[0] !== '') {
+    return null;
+  }
+
+  const segments = parts.slice(1).filter((part, index, all) => part !== '' || index < all.length - 1);
+  const trailingSlash = parts.length > 1 && parts[parts.length - 1] === '' && segments.length > 0;
+  const routableIndex = getRoutableSegments(rename.parentSegments).length;
+  const oldRoutable = isRoutable(rename.oldName);
+  const newRoutable = isRoutable(rename.newName);
+
+  // Index of the href segment at the renamed folder's URL depth; route groups (revalidatePath) don't count
+  let position = segments.length;
+  for (let index = 0, depth = 0; index < segments.length; index++) {
+    if (!ROUTE_PATTERNS.ROUTE_GROUP.test(segments[index])) {
+      if (depth === routableIndex) {
+        position = index;
+        break;
+      }
+      depth++;
+    }
+  }
+
+  const literal = segments.indexOf(rename.oldName);
+  const next = [...segments];
+  if (oldRoutable && newRoutable) {
+    // A static folder made dynamic still serves the old value
+    const keepsValue = ROUTE_PATTERNS.DYNAMIC_SEGMENT.test(rename.newName) || ROUTE_PATTERNS.CATCH_ALL_SEGMENT.test(rename.newName) || ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.test(rename.newName);
+    if (segments[position] !== rename.oldName || (keepsValue && !isDynamicName(rename.oldName))) {
+      return null;
+    }
+    next[position] = rename.newName;
+  } else if (oldRoutable) {
+    if (segments[position] !== rename.oldName) {
+      return null;
+    }
+    next.splice(position, 1);
+  } else if (literal !== -1) {
+    // revalidatePath('/(shop)/cart') names the group itself
+    next[literal] = rename.newName;
+  } else if (newRoutable && !isDynamicName(rename.newName)) {
+    next.splice(position, 0, rename.newName);
+  } else {
+    return null;
+  }
+
+  const pathname = next.length > 0 ? `/${next.join('/')}${trailingSlash ? '/' : ''}` : '/';
+  const renamed = pathname + suffix;
+  return renamed === href ? null : renamed;
+}
+
+/**
+ * The next.config redirect keeping old URLs below a renamed folder working, null when
+ * its URLs don't change or can't be expressed as a redirect
+ */
+export function buildRenameRedirect(rename: SegmentRename): { source: string; destination: string } | null {
+  const oldSegments = getRoutableSegments([...rename.parentSegments, rename.oldName]);
+  const newSegments = getRoutableSegments([...rename.parentSegments, rename.newName]);
+  if (oldSegments.length === 0 || getRouteShape(oldSegments) === getRouteShape(newSegments)) {
+    return null;
+  }
+
+  const oldParams = oldSegments.map(getParamName).filter(Boolean);
+  if (newSegments.some(segment => getParamName(segment) && !oldParams.includes(getParamName(segment)))) {
+    return null;
+  }
+
+  // Everything below the folder follows it, unless a catch-all already takes the rest
+  const last = oldSegments[oldSegments.length - 1];
+  const rest = oldParams.includes('path') ? 'rest' : 'path';
+  const tail = isDynamicName(last) && !ROUTE_PATTERNS.DYNAMIC_SEGMENT.test(last) ? '' : `/:${rest}*`;
+  return {
+    source: `/${oldSegments.map(toSourceSegment).join('/')}${tail}`,
+    destination: `/${newSegments.map(toSourceSegment).join('/')}${tail}`.replace(/^\/\//, '/')
+  };
+}
+
+/**
+ * Route segment in next.config source syntax: [id] → :id, [...slug] → :slug+, [[...slug]] → :slug*
+ */
+function toSourceSegment(segment: string): string {
+  const optionalCatchAll = ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.exec(segment);
+  if (optionalCatchAll) {
+    return `:${optionalCatchAll[1]}*`;
+  }
+  const catchAll = ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(segment);
+  if (catchAll) {
+    return `:${catchAll[1]}+`;
+  }
+  const dynamic = ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(segment);
+  return dynamic ? `:${dynamic[1]}` : segment;
+}
+
+function getParamName(segment: string): string {
+  const param = ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.exec(segment)
+    || ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(segment)
+    || ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(segment);
+  return param ? param[1] : '';
+}
+
+function isDynamicName(segment: string): boolean {
+  return getParamName(segment) !== '';
+}
+
+function isRoutable(segment: string): boolean {
+  return getRoutableSegments([segment]).length > 0;
+}
+
+/**
+ * Split an href path at slashes outside template expressions
+ */
+function splitTopLevel(pathname: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let end = findTopLevel(pathname, char => char === '/');
+  while (end < pathname.length) {
+    parts.push(pathname.slice(start, end));
+    start = end + 1;
+    end = start + findTopLevel(pathname.slice(start), char => char === '/');
+  }
+  parts.push(pathname.slice(start));
+  return parts;
+}
+
+/**
+ * Index of the first character outside `${}` expressions accepted by the test, or the length
+ */
+function findTopLevel(text: string, test: (char: string) => boolean): number {
+  let depth = 0;
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '$' && text[index + 1] === '{') {
+      depth++;
+      index++;
+    } else if (depth > 0 && text[index] === '{') {
+      depth++;
+    } else if (depth > 0 && text[index] === '}') {
+      depth--;
+    } else if (depth === 0 && test(text[index])) {
+      return index;
+    }
+  }
+  return text.length;
+}
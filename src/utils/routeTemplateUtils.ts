@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HttpMethod, ROUTE_PATTERNS, RouteFileType } from '../constants';
+import { getRoutableSegments } from './routeMatcher';
+
+// Team templates, relative to the project root or workspace folder
+export const ROUTE_TEMPLATES_DIRECTORY = path.join('.vscode', 'nextjs-radar', 'templates');
+
+// Convention files the New Route wizard can create, in creation order
+export const SCAFFOLD_FILE_TYPES = [
+  RouteFileType.Page,
+  RouteFileType.Layout,
+  RouteFileType.Loading,
+  RouteFileType.Error,
+  RouteFileType.NotFound,
+  RouteFileType.Route
+];
+
+// Per-method block a route template's {{handlers}} expands to
+const ROUTE_HANDLER_TEMPLATE = 'route-handler';
+
+interface BuiltInTemplate {
+  typescript: string;
+  javascript: string;
+}
+
+const BUILT_IN_TEMPLATES: Record<string, BuiltInTemplate> = {
+  [RouteFileType.Page]: {
+    typescript: `export default function {{componentName}}Page() {
+  return <h1>{{routePath}}</h1>;
+}
+`,
+    javascript: `export default function {{componentName}}Page() {
+  return <h1>{{routePath}}</h1>;
+}
+`
+  },
+  [RouteFileType.Layout]: {
+    typescript: `export default function {{componentName}}Layout({ children }: { children: React.ReactNode }) {
+  return <>{children}</>;
+}
+`,
+    javascript: `export default function {{componentName}}Layout({ children }) {
+  return <>{children}</>;
+}
+`
+  },
+  [RouteFileType.Loading]: {
+    typescript: `export default function Loading() {
+  return <p>Loading...</p>;
+}
+`,
+    javascript: `export default function Loading() {
+  return <p>Loading...</p>;
+}
+`
+  },
+  [RouteFileType.Error]: {
+    typescript: `'use client';
+
+export default function {{componentName}}Error({ error, reset }: { error: Error & { digest?: string }; reset: () => void }) {
+  return (
+    <div>
+      <p>{error.message}</p>
+      <button onClick={() => reset()}>Try again</button>
+    </div>
+  );
+}
+`,
+    javascript: `'use client';
+
+export default function {{componentName}}Error({ error, reset }) {
+  return (
+    <div>
+      <p>{error.message}</p>
+      <button onClick={() => reset()}>Try again</button>
+    </div>
+  );
+}
+`
+  },
+  [RouteFileType.NotFound]: {
+    typescript: `export default function NotFound() {
+  return <p>Not found</p>;
+}
+`,
+    javascript: `export default function NotFound() {
+  return <p>Not found</p>;
+}
+`
+  },
+  [RouteFileType.Route]: {
+    typescript: `{{handlers}}
+`,
+    javascript: `{{handlers}}
+`
+  },
+  [ROUTE_HANDLER_TEMPLATE]: {
+    typescript: `export async function {{method}}(request: Request) {
+  return Response.json({ method: request.method, route: '{{routePath}}' });
+}
+`,
+    javascript: `export async function {{method}}(request) {
+  return Response.json({ method: request.method, route: '{{routePath}}' });
+}
+`
+  }
+};
+
+// Pages read their params, a Promise since Next.js 15
+const BUILT_IN_DYNAMIC_PAGE: BuiltInTemplate = {
+  typescript: `export default async function {{componentName}}Page({ params }: { params: Promise<{{paramsType}}> }) {
+  const {{params}} = await params;
+
+  return <h1>{{routePath}}</h1>;
+}
+`,
+  javascript: `export default async function {{componentName}}Page({ params }) {
+  const {{params}} = await params;
+
+  return <h1>{{routePath}}</h1>;
+}
+`
+};
+
+export interface RouteTemplate {
+  // Extension of the generated file, from the template file name
+  extension: string;
+  source: string;
+}
+
+export interface ScaffoldOptions {
+  // Folders from the app directory down to the new route, the new segment last
+  segments: string[];
+  fileTypes: RouteFileType[];
+  // Methods exported by route.ts
+  methods: HttpMethod[];
+  typescript: boolean;
+  // Team templates by name (page, layout, route, route-handler...)
+  templates: Map<string, RouteTemplate>;
+}
+
+export interface ScaffoldFile {
+  fileName: string;
+  content: string;
+}
+
+/**
+ * Read team templates (`page.tsx`, `route.ts`, `route-handler.ts`...) from the given
+ * folders; the first folder defining a name wins
+ */
+export async function loadRouteTemplates(directories: string[]): Promise<Map<string, RouteTemplate>> {
+  const templates = new Map<string, RouteTemplate>();
+  for (const directory of directories) {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries.filter(item => item.isFile())) {
+      const extension = path.extname(entry.name);
+      const name = entry.name.slice(0, entry.name.length - extension.length);
+      if (!templates.has(name)) {
+        templates.set(name, { extension, source: await fs.promises.readFile(path.join(directory, entry.name), 'utf8') });
+      }
+    }
+  }
+  return templates;
+}
+
+/**
+ * Render the convention files of a new route from team templates, falling back to the built-in ones
+ */
+export function renderRouteFiles(options: ScaffoldOptions): ScaffoldFile[] {
+  const variables = buildTemplateVariables(options.segments);
+  const builtInFor = (name: string) => {
+    const builtIn = name === RouteFileType.Page && variables.params !== '{}' ? BUILT_IN_DYNAMIC_PAGE : BUILT_IN_TEMPLATES[name];
+    return options.typescript ? builtIn.typescript : builtIn.javascript;
+  };
+  const sourceFor = (name: string) => options.templates.get(name)?.source ?? builtInFor(name);
+
+  const handlers = options.methods
+    .map(method => renderTemplate(sourceFor(ROUTE_HANDLER_TEMPLATE), { ...variables, method }).trim())
+    .join('\n\n');
+
+  return options.fileTypes.map(fileType => {
+    const isComponent = fileType !== RouteFileType.Route;
+    const defaultExtension = options.typescript ? (isComponent ? '.tsx' : '.ts') : '.js';
+    return {
+      fileName: fileType + (options.templates.get(fileType)?.extension ?? defaultExtension),
+      content: renderTemplate(sourceFor(fileType), { ...variables, handlers })
+    };
+  });
+}
+
+/**
+ * Template variables of a route: segment, routePath, componentName, params and paramsType
+ */
+export function buildTemplateVariables(segments: string[]): Record<string, string> {
+  const routable = getRoutableSegments(segments);
+  const params: { name: string; type: string }[] = [];
+  for (const segment of routable) {
+    const optionalCatchAll = ROUTE_PATTERNS.OPTIONAL_CATCH_ALL_SEGMENT.exec(segment);
+    const catchAll = ROUTE_PATTERNS.CATCH_ALL_SEGMENT.exec(segment);
+    const dynamic = ROUTE_PATTERNS.DYNAMIC_SEGMENT.exec(segment);
+    if (optionalCatchAll) {
+      params.push({ name: optionalCatchAll[1], type: '?: string[]' });
+    } else if (catchAll) {
+      params.push({ name: catchAll[1], type: ': string[]' });
+    } else if (dynamic) {
+      params.push({ name: dynamic[1], type: ': string' });
+    }
+  }
+
+  const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+  const bindings = params.filter(param => isIdentifier(param.name)).map(param => param.name);
+  return {
+    segment: segments[segments.length - 1] || '',
+    routePath: `/${routable.join('/')}`,
+    componentName: toComponentName(segments),
+    params: bindings.length > 0 ? `{ ${bindings.join(', ')} }` : '{}',
+    paramsType: params.length > 0
+      ? `{ ${params.map(param => `${isIdentifier(param.name) ? param.name : `'${param.name}'`}${param.type}`).join('; ')} }`
+      : '{}'
+  };
+}
+
+/**
+ * Replace `{{name}}` placeholders; unknown names are left as they are
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+/**
+ * PascalCase name of the deepest segment: `[slug]` → Slug, `blog-post` → BlogPost, the root → Home
+ */
+function toComponentName(segments: string[]): string {
+  for (let index = segments.length - 1; index >= 0; index--) {
+    const name = segments[index]
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word[0].toUpperCase() + word.slice(1))
+      .join('');
+    if (name) {
+      return /^\d/.test(name) ? `Route${name}` : name;
+    }
+  }
+  return 'Home';
+}
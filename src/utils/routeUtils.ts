@@ -4,14 +4,24 @@ import * as fs from 'fs';
 import { 
   RouteFileType, 
   RoutingPattern, 
+  RouterType,
   NextjsRouteItem,
   getFileType,
   getRoutingPattern,
   ROUTE_PATTERNS,
-  FILE_PATTERNS,
-  RESERVED_FILENAMES
+  SEGMENT_PATTERNS,
+  FilePatterns,
+  RESERVED_FILENAMES,
+  METADATA_FILE_TYPES,
+  METADATA_ROUTE_NAMES,
+  METADATA_ASSET_EXTENSIONS,
+  DEFAULT_PAGE_EXTENSIONS,
+  buildFilePatterns
 } from '../constants';
 import { RouteItem } from '../models';
+import { RouteParams, findBestRouteMatch } from './routeMatcher';
+import { findNextConfigPath } from './nextConfigUtils';
+import { globToRegExp, normalizePath } from './fileUtils';
 
 export interface AppRouterFile {
   filePath: string;
@@ -20,13 +30,45 @@ export interface AppRouterFile {
   fileType: RouteFileType;
   segments: string[];
   routePath: string;
+  router?: RouterType;
 }
 
+// A non-convention file in the app directory: a component, hook or test next to
+// a route, or anything inside a private _folder
+export interface ColocatedFile {
+  filePath: string;
+  relativePath: string;
+  // Folder segments holding the file, private folders included
+  segments: string[];
+}
+
+export interface NextjsApp {
+  name: string;
+  projectRoot: string;
+  appDirectory: string | null;
+  pagesDirectory: string | null;
+  workspaceFolder: string;
+  devPort?: number;
+}
+
+export interface RouteScanOptions {
+  // Root the exclude globs are relative to (the app directory when omitted)
+  projectRoot?: string;
+  // Globs of files and folders to leave out, e.g. **/__tests__/**
+  excludePatterns?: string[];
+  // next.config pageExtensions
+  pageExtensions?: string[];
+}
+
+const DEFAULT_WORKSPACE_PATTERNS = ['apps/*', 'packages/*'];
+
 /**
- * Find Next.js app directory in the workspace
+ * Find Next.js app directory in the workspace: a configured location
+ * (relative to the project root) first, then app/ and src/app/
  */
-export async function findNextjsAppDir(workspaceRoot: string): Promise<string | null> {
+export async function findNextjsAppDir(workspaceRoot: string, customAppDirectory?: string): Promise<string | null> {
   const possiblePaths = [
+    ...(customAppDirectory ? [path.resolve(workspaceRoot, customAppDirectory)] : []),
     path.join(workspaceRoot, 'app'),
     path.join(workspaceRoot, 'src', 'app')
   ];
@@ -46,46 +88,217 @@ export async function findNextjsAppDir(workspaceRoot: string): Promise<string |
 }
 
 /**
- * Scan app router files using glob patterns
+ * Find Next.js pages directory in a project
+ */
+export async function findNextjsPagesDir(projectRoot: string): Promise<string | null> {
+  const possiblePaths = [
+    path.join(projectRoot, 'pages'),
+    path.join(projectRoot, 'src', 'pages')
+  ];
+
+  for (const pagesPath of possiblePaths) {
+    try {
+      const stat = await fs.promises.stat(pagesPath);
+      if (stat.isDirectory()) {
+        return pagesPath;
+      }
+    } catch (error) {
+      // Directory doesn't exist, continue
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find every Next.js app across the given workspace folders, including
+ * monorepo packages such as apps/* and packages/*
  */
-export async function scanAppRouterFiles(appDir: string): Promise<AppRouterFile[]> {
+export async function findNextjsApps(workspaceFolders: string[], customAppDirectory?: string): Promise<NextjsApp[]> {
+  const apps: NextjsApp[] = [];
+  const seen = new Set<string>();
+
+  for (const workspaceFolder of workspaceFolders) {
+    const candidates = [workspaceFolder, ...(await findWorkspacePackages(workspaceFolder))];
+
+    for (const projectRoot of candidates) {
+      const appDirectory = await findNextjsAppDir(projectRoot, customAppDirectory);
+      const pagesDirectory = await findNextjsPagesDir(projectRoot);
+      if ((!appDirectory && !pagesDirectory) || seen.has(projectRoot) || !(await isNextjsProject(projectRoot))) {
+        continue;
+      }
+      seen.add(projectRoot);
+
+      const relativeRoot = path.relative(workspaceFolder, projectRoot);
+      apps.push({
+        name: relativeRoot ? relativeRoot.split(path.sep).join('/') : path.basename(workspaceFolder),
+        projectRoot,
+        appDirectory,
+        pagesDirectory,
+        workspaceFolder,
+        devPort: await detectDevPort(projectRoot)
+      });
+    }
+  }
+
+  return apps;
+}
+
+/**
+ * List package directories declared by a monorepo root (package.json workspaces,
+ * pnpm-workspace.yaml), falling back to the common apps/* and packages/* layout
+ */
+async function findWorkspacePackages(workspaceFolder: string): Promise<string[]> {
+  const patterns = new Set<string>(DEFAULT_WORKSPACE_PATTERNS);
+
+  try {
+    const packageJson = JSON.parse(await fs.promises.readFile(path.join(workspaceFolder, 'package.json'), 'utf8'));
+    const workspaces = Array.isArray(packageJson.workspaces) ? packageJson.workspaces : packageJson.workspaces?.packages;
+    if (Array.isArray(workspaces)) {
+      workspaces.filter((pattern: unknown) => typeof pattern === 'string').forEach((pattern: string) => patterns.add(pattern));
+    }
+  } catch {
+    // No package.json or no workspaces field
+  }
+
+  try {
+    const pnpmWorkspace = await fs.promises.readFile(path.join(workspaceFolder, 'pnpm-workspace.yaml'), 'utf8');
+    for (const match of pnpmWorkspace.matchAll(/^\s*-\s*['"]?([^'"\s#]+)['"]?/gm)) {
+      patterns.add(match[1]);
+    }
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  const packages: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      continue;
+    }
+
+    // Only single-level wildcards (apps/*) and literal paths are supported
+    const normalized = pattern.replace(/\/+$/, '');
+    if (normalized.endsWith('/*')) {
+      const parentDir = path.join(workspaceFolder, normalized.slice(0, -2));
+      try {
+        const entries = await fs.promises.readdir(parentDir, { withFileTypes: true });
+        for (const entry of entries) {
+          if (entry.isDirectory() && !shouldSkipDirectory(entry.name)) {
+            packages.push(path.join(parentDir, entry.name));
+          }
+        }
+      } catch {
+        // Directory doesn't exist, continue
+      }
+    } else if (!normalized.includes('*')) {
+      packages.push(path.join(workspaceFolder, normalized));
+    }
+  }
+
+  return [...new Set(packages)];
+}
+
+/**
+ * Read the dev server port from the `dev` script (next dev -p 3001 / --port 3001)
+ */
+async function detectDevPort(projectRoot: string): Promise<number | undefined> {
+  try {
+    const packageJson = JSON.parse(await fs.promises.readFile(path.join(projectRoot, 'package.json'), 'utf8'));
+    const devScript: unknown = packageJson.scripts?.dev;
+    if (typeof devScript === 'string') {
+      const match = /(?:-p|--port)[\s=]+(\d+)/.exec(devScript);
+      if (match) {
+        return parseInt(match[1], 10);
+      }
+    }
+  } catch {
+    // No package.json or no dev script
+  }
+  return undefined;
+}
+
+/**
+ * Scan app router files, honouring exclude globs and next.config pageExtensions
+ */
+export async function scanAppRouterFiles(appDir: string, options: RouteScanOptions = {}): Promise<AppRouterFile[]> {
+  return (await scanAppRouterTree(appDir, options)).files;
+}
+
+/**
+ * Scan the app directory for route files and the colocated files around them
+ */
+export async function scanAppRouterTree(
+  appDir: string,
+  options: RouteScanOptions = {}
+): Promise<{ files: AppRouterFile[]; colocatedFiles: ColocatedFile[] }> {
   const files: AppRouterFile[] = [];
+  const colocatedFiles: ColocatedFile[] = [];
+  const filePatterns = buildFilePatterns(options.pageExtensions || DEFAULT_PAGE_EXTENSIONS);
+  const isExcluded = createExcludeMatcher(options.projectRoot || appDir, options.excludePatterns);
   
   try {
-    await scanDirectory(appDir, appDir, files);
+    await scanDirectory(appDir, appDir, { files, colocatedFiles }, filePatterns, isExcluded, false);
   } catch (error) {
     console.error('Error scanning app router files:', error);
   }
 
-  return files;
+  return { files, colocatedFiles };
 }
 
 /**
- * Recursively scan directory for Next.js App Router files
+ * Build a predicate telling whether an absolute path matches one of the exclude globs
  */
-async function scanDirectory(currentDir: string, appRoot: string, files: AppRouterFile[]): Promise<void> {
+export function createExcludeMatcher(root: string, excludePatterns: string[] = []): (fullPath: string) => boolean {
+  const matchers = excludePatterns.map(globToRegExp);
+  return fullPath => {
+    const relativePath = normalizePath(path.relative(root, fullPath));
+    return matchers.some(matcher => matcher.test(relativePath));
+  };
+}
+
+/**
+ * Recursively scan directory for Next.js App Router files; everything below a
+ * private folder, and any file that isn't a route convention, is colocated
+ */
+async function scanDirectory(
+  currentDir: string,
+  appRoot: string,
+  results: { files: AppRouterFile[]; colocatedFiles: ColocatedFile[] },
+  filePatterns: FilePatterns,
+  isExcluded: (fullPath: string) => boolean,
+  isPrivate: boolean
+): Promise<void> {
   try {
     const entries = await fs.promises.readdir(currentDir, { withFileTypes: true });
 
     for (const entry of entries) {
       const fullPath = path.join(currentDir, entry.name);
+      if (isExcluded(fullPath)) {
+        continue;
+      }
       
       if (entry.isDirectory()) {
-        // Skip node_modules and other common exclude patterns
-        if (shouldSkipDirectory(entry.name)) {
+        // Skip node_modules and other common exclude patterns; _folders (__tests__ included)
+        // leave routing but stay browsable as colocated files
+        if (shouldSkipDirectory(entry.name) && !isPrivateSegment(entry.name)) {
           continue;
         }
         
-        await scanDirectory(fullPath, appRoot, files);
+        await scanDirectory(fullPath, appRoot, results, filePatterns, isExcluded, isPrivate || isPrivateSegment(entry.name));
       } else if (entry.isFile()) {
-        const fileType = getFileType(entry.name);
+        const relativePath = path.relative(appRoot, fullPath);
+        const fileType = isPrivate ? null : getFileType(entry.name, filePatterns);
         
-        if (fileType) {
-          const relativePath = path.relative(appRoot, fullPath);
+        if (!fileType) {
+          results.colocatedFiles.push({ filePath: fullPath, relativePath, segments: parseRouteSegments(relativePath) });
+        } else {
           const segments = parseRouteSegments(relativePath);
-          const routePath = buildRoutePath(segments);
+          const folderPath = buildRoutePath(segments);
+          const routePath = METADATA_FILE_TYPES.includes(fileType)
+            ? getMetadataRoutePath(folderPath, entry.name, fileType)
+            : folderPath;
           
-          files.push({
+          results.files.push({
             filePath: fullPath,
             relativePath,
             fileName: entry.name,
@@ -101,10 +314,23 @@ async function scanDirectory(currentDir: string, appRoot: string, files: AppRout
   }
 }
 
+/**
+ * URL of a metadata file: static assets keep their file name, generated images
+ * drop the extension and sitemap/robots/manifest get the extension they are served with
+ */
+export function getMetadataRoutePath(folderPath: string, fileName: string, fileType: RouteFileType): string {
+  const extension = fileName.slice(fileName.lastIndexOf('.') + 1);
+  const isGenerated = !(METADATA_ASSET_EXTENSIONS[fileType] || []).includes(extension);
+  const urlName = isGenerated
+    ? METADATA_ROUTE_NAMES[fileType] || fileName.replace(/\.[^.]+$/, '')
+    : fileName;
+  return folderPath === '/' ? `/${urlName}` : `${folderPath}/${urlName}`;
+}
+
 /**
  * Check if directory should be skipped during scanning
  */
-function shouldSkipDirectory(dirName: string): boolean {
+export function shouldSkipDirectory(dirName: string): boolean {
   const skipPatterns = [
     'node_modules',
     '.next',
@@ -137,13 +363,14 @@ export function parseRouteSegments(relativePath: string): string[] {
 /**
  * Build route path from segments
  */
-function buildRoutePath(segments: string[]): string {
+export function buildRoutePath(segments: string[]): string {
   if (segments.length === 0) {
     return '/';
   }
   
-  const pathSegments = segments
-    .filter(segment => !isRouteGroup(segment)) // Remove route groups from URL path
+  // Intercepting folders serve the URL of the route they intercept
+  const pathSegments = (resolveInterceptedSegments(segments) || segments)
+    .filter(segment => !isRouteGroup(segment) && !isParallelRoute(segment)) // Route groups and parallel slots don't appear in the URL
     .map(segment => {
       // Convert dynamic segments for display
       if (segment.startsWith('[') && segment.endsWith(']')) {
@@ -154,12 +381,7 @@ function buildRoutePath(segments: string[]): string {
         return `:${inner}`; // [id] -> :id
       }
       
-      // Handle parallel routes (remove @ prefix)
-      if (segment.startsWith('@')) {
-        return segment.slice(1);
-      }
-      
-      return segment;
+      return segment.replace(ROUTE_PATTERNS.ENCODED_UNDERSCORE, '_'); // %5Fsegment -> _segment
     });
     
   return '/' + pathSegments.join('/');
@@ -173,9 +395,10 @@ export function identifyRoutePattern(segment: string): RoutingPattern {
 }
 
 /**
- * Build route hierarchy from scanned files
+ * Build route hierarchy from scanned files. The ID prefix keeps route IDs
+ * unique when several apps are shown in the same tree.
  */
-export function buildRouteHierarchy(files: AppRouterFile[]): RouteItem[] {
+export function buildRouteHierarchy(files: AppRouterFile[], idPrefix: string = ''): RouteItem[] {
   const routeMap = new Map<string, RouteItem>();
   const rootRoutes: RouteItem[] = [];
 
@@ -183,10 +406,12 @@ export function buildRouteHierarchy(files: AppRouterFile[]): RouteItem[] {
   const sortedFiles = files.sort((a, b) => a.segments.length - b.segments.length);
 
   for (const file of sortedFiles) {
-    const routeId = generateRouteId(file.segments, file.fileType);
+    // Several metadata files of one type can share a folder (icon1.png, icon2.png)
+    const routeId = idPrefix + generateRouteId(file.segments, file.fileType)
+      + (METADATA_FILE_TYPES.includes(file.fileType) ? `:${file.fileName}` : '');
     
     // Find parent route
-    const parentId = findParentRouteId(file.segments, file.fileType, routeMap);
+    const parentId = findParentRouteId(file.segments, file.fileType, routeMap, idPrefix);
     
     const routeItem = createRouteItem(file, routeId, parentId);
     routeMap.set(routeId, routeItem);
@@ -211,7 +436,9 @@ export function buildRouteHierarchy(files: AppRouterFile[]): RouteItem[] {
  */
 function createRouteItem(file: AppRouterFile, routeId: string, parentId?: string): RouteItem {
   const pattern = determineOverallPattern(file.segments);
-  const label = generateRouteLabel(file.segments, file.fileType);
+  const label = METADATA_FILE_TYPES.includes(file.fileType)
+    ? file.routePath
+    : generateRouteLabel(file.segments, file.fileType);
   
   return new RouteItem(
     routeId,
@@ -280,14 +507,15 @@ function formatSegmentForDisplay(segment: string): string {
 function findParentRouteId(
   segments: string[], 
   fileType: RouteFileType, 
-  routeMap: Map<string, RouteItem>
+  routeMap: Map<string, RouteItem>,
+  idPrefix: string = ''
 ): string | undefined {
   if (segments.length === 0) {
     return undefined;
   }
   
   // Look for layout in the same directory first
-  const layoutId = generateRouteId(segments, RouteFileType.Layout);
+  const layoutId = idPrefix + generateRouteId(segments, RouteFileType.Layout);
   if (routeMap.has(layoutId)) {
     return layoutId;
   }
@@ -295,7 +523,7 @@ function findParentRouteId(
   // Look for parent layout
   const parentSegments = segments.slice(0, -1);
   if (parentSegments.length > 0) {
-    const parentLayoutId = generateRouteId(parentSegments, RouteFileType.Layout);
+    const parentLayoutId = idPrefix + generateRouteId(parentSegments, RouteFileType.Layout);
     if (routeMap.has(parentLayoutId)) {
       return parentLayoutId;
     }
@@ -307,7 +535,7 @@ function findParentRouteId(
 /**
  * Determine overall routing pattern for a route
  */
-function determineOverallPattern(segments: string[]): RoutingPattern {
+export function determineOverallPattern(segments: string[]): RoutingPattern {
   for (const segment of segments) {
     const pattern = getRoutingPattern(segment);
     if (pattern !== RoutingPattern.Static) {
@@ -317,120 +545,52 @@ function determineOverallPattern(segments: string[]): RoutingPattern {
   return RoutingPattern.Static;
 }
 
-/**
- * Match URL to route file
- */
-export function matchUrlToRoute(url: string, routes: RouteItem[]): RouteItem | null {
-  // Clean up URL - remove query params, hash, leading/trailing slashes
-  const cleanPath = cleanUrl(url);
-  const urlSegments = cleanPath === '/' ? [] : cleanPath.split('/');
-  
-  return findMatchingRoute(urlSegments, routes);
+export interface RouteMatch {
+  route: RouteItem;
+  params: RouteParams;
 }
 
 /**
- * Clean URL for matching
+ * Match URL to route file
  */
-function cleanUrl(url: string): string {
-  // Remove protocol and domain if present
-  let path = url.includes('://') ? new URL(url).pathname : url;
-  
-  // Remove query params and hash
-  path = path.split('?')[0].split('#')[0];
-  
-  // Normalize slashes
-  path = path.replace(/\/+/g, '/');
-  
-  // Remove trailing slash unless it's root
-  if (path !== '/' && path.endsWith('/')) {
-    path = path.slice(0, -1);
-  }
-  
-  return path;
+export function matchUrlToRoute(url: string, routes: RouteItem[]): RouteMatch | null {
+  const best = findBestRouteMatch(url, flattenRouteItems(routes));
+  return best ? { route: best.route, params: best.params } : null;
 }
 
 /**
- * Find matching route for URL segments
+ * Flatten a route tree, keeping the first occurrence of each route ID
  */
-function findMatchingRoute(urlSegments: string[], routes: RouteItem[]): RouteItem | null {
-  for (const route of routes) {
-    if (isRouteMatch(urlSegments, route)) {
-      return route;
-    }
-    
-    // Check children recursively
-    if (route.children) {
-      const childMatch = findMatchingRoute(urlSegments, route.children);
-      if (childMatch) {
-        return childMatch;
+export function flattenRouteItems(routes: RouteItem[]): RouteItem[] {
+  const seen = new Set<string>();
+  const flattened: RouteItem[] = [];
+  
+  const flatten = (items: RouteItem[]) => {
+    for (const item of items) {
+      if (!seen.has(item.id)) {
+        seen.add(item.id);
+        flattened.push(item);
+      }
+      if (item.children) {
+        flatten(item.children);
       }
     }
-  }
-  
-  return null;
-}
-
-/**
- * Check if route matches URL segments
- */
-function isRouteMatch(urlSegments: string[], route: RouteItem): boolean {
-  // Only match page routes for URLs
-  if (!route.isPage) {
-    return false;
-  }
-  
-  const routeSegments = route.segments.filter(segment => !isRouteGroup(segment));
+  };
   
-  // Handle root route
-  if (routeSegments.length === 0) {
-    return urlSegments.length === 0;
-  }
-  
-  return matchSegments(urlSegments, routeSegments);
+  flatten(routes);
+  return flattened;
 }
 
 /**
- * Match URL segments against route segments
+ * Call a function on every item of a route tree, parents before their children
  */
-function matchSegments(urlSegments: string[], routeSegments: string[]): boolean {
-  let urlIndex = 0;
-  let routeIndex = 0;
-  
-  while (routeIndex < routeSegments.length) {
-    const routeSegment = routeSegments[routeIndex];
-    
-    if (isOptionalCatchAllSegment(routeSegment)) {
-      // Optional catch-all matches any remaining segments or none
-      return true;
-    }
-    
-    if (isCatchAllSegment(routeSegment)) {
-      // Catch-all must match at least one segment
-      return urlIndex < urlSegments.length;
+export function forEachRouteItem(routes: RouteItem[], fn: (item: RouteItem) => void): void {
+  for (const item of routes) {
+    fn(item);
+    if (item.children) {
+      forEachRouteItem(item.children, fn);
     }
-    
-    if (isDynamicSegment(routeSegment)) {
-      // Dynamic segment matches any single segment
-      if (urlIndex >= urlSegments.length) {
-        return false;
-      }
-      urlIndex++;
-    } else if (routeSegment.startsWith('@')) {
-      // Skip parallel routes in matching
-      // They don't affect URL structure
-    } else {
-      // Static segment must match exactly
-      if (urlIndex >= urlSegments.length || urlSegments[urlIndex] !== routeSegment) {
-        return false;
-      }
-      urlIndex++;
-    }
-    
-    routeIndex++;
   }
-  
-  // All route segments matched, URL should be fully consumed
-  return urlIndex === urlSegments.length;
 }
 
 /**
@@ -460,6 +620,75 @@ export function isInterceptingRoute(segment: string): boolean {
   return ROUTE_PATTERNS.INTERCEPTING_ROUTE.test(segment);
 }
 
+export function isPrivateSegment(segment: string): boolean {
+  return ROUTE_PATTERNS.PRIVATE_FOLDER.test(segment);
+}
+
+/**
+ * Check that a folder name is a route segment Next.js understands, returning the problem if not
+ */
+export function validateSegmentName(name: string): string | undefined {
+  if (!name.trim()) {
+    return 'Enter a folder name';
+  }
+  if (/[\\/]/.test(name) || name === '.' || name === '..') {
+    return 'A segment is a single folder name';
+  }
+  if (isPrivateSegment(name)) {
+    return 'Folders starting with _ are private and never routed';
+  }
+  if (!Object.values(SEGMENT_PATTERNS).some(pattern => pattern.test(name))) {
+    return 'Not a route segment: use name, [param], [...param], [[...param]], (group), @slot or (.)name';
+  }
+  return undefined;
+}
+
+export interface InterceptingSegment {
+  // (.), (..), (..)(..) or (...)
+  marker: string;
+  // Route segments to climb before appending the segment; null means the app root
+  levelsUp: number | null;
+  // The intercepted segment itself, e.g. photo or [id]
+  segment: string;
+}
+
+/**
+ * Split an intercepting folder name into its marker and the segment it intercepts
+ */
+export function parseInterceptingSegment(segment: string): InterceptingSegment | null {
+  const match = ROUTE_PATTERNS.INTERCEPTING_ROUTE.exec(segment);
+  if (!match) {
+    return null;
+  }
+
+  const marker = match[1];
+  const levelsUp = marker === '(...)' ? null : marker === '(.)' ? 0 : marker.length / '(..)'.length;
+  return { marker, levelsUp, segment: match[2] };
+}
+
+/**
+ * Resolve the folder segments of an intercepting route to the route segments it
+ * intercepts. Markers count route segments, not folders: route groups and
+ * parallel slots above the marker are skipped. Returns null without a marker.
+ */
+export function resolveInterceptedSegments(segments: string[]): string[] | null {
+  let index = segments.length - 1;
+  while (index >= 0 && !isInterceptingRoute(segments[index])) {
+    index--;
+  }
+  if (index < 0) {
+    return null;
+  }
+
+  const intercepting = parseInterceptingSegment(segments[index])!;
+  const parent = segments.slice(0, index);
+  const base = (resolveInterceptedSegments(parent) || parent)
+    .filter(segment => !isRouteGroup(segment) && !isParallelRoute(segment));
+  const kept = intercepting.levelsUp === null ? [] : base.slice(0, Math.max(0, base.length - intercepting.levelsUp));
+
+  return [...kept, intercepting.segment, ...segments.slice(index + 1)];
+}
+
 /**
  * Get route depth for sorting
  */
@@ -498,15 +727,8 @@ function naturalSort(a: string, b: string): number {
  */
 export async function isNextjsProject(workspaceRoot: string): Promise<boolean> {
   try {
-    // Check for next.config.js
-    const nextConfigPath = path.join(workspaceRoot, 'next.config.js');
-    if (await fileExists(nextConfigPath)) {
-      return true;
-    }
-
-    // Check for next.config.mjs
-    const nextConfigMjsPath = path.join(workspaceRoot, 'next.config.mjs');
-    if (await fileExists(nextConfigMjsPath)) {
+    // Check for next.config.(js|mjs|cjs|ts|mts)
+    if (await findNextConfigPath(workspaceRoot)) {
       return true;
     }
 
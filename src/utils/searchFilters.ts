@@ -0,0 +1,97 @@
+import { SegmentConfigKey, ComponentType } from '../constants';
+import { RouteItem } from '../models';
+
+/**
+ * Match an effective segment config value; `*` matches any declared value
+ */
+function segmentConfigFilter(key: SegmentConfigKey): (route: RouteItem, value: string) => boolean {
+  return (route, value) => {
+    const configValue = route.segmentConfig?.values[key];
+    if (configValue === undefined) {
+      return false;
+    }
+    const values = Array.isArray(configValue) ? configValue : [configValue];
+    return value === '*' || values.some(candidate => String(candidate).toLowerCase() === value.toLowerCase());
+  };
+}
+
+/**
+ * Match the component classification: `server`, `client`, `actions`
+ * (Server Actions) or `boundary` (server files rendering client modules)
+ */
+function componentFilter(route: RouteItem, value: string): boolean {
+  const component = route.component;
+  switch (value.toLowerCase()) {
+    case 'server':
+      return component?.type === ComponentType.Server;
+    case 'client':
+      return component?.type === ComponentType.Client;
+    case 'actions':
+      return component?.hasServerActions === true;
+    case 'boundary':
+      return (component?.clientBoundaries.length || 0) > 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Match how the last build rendered the route: `static`, `ssg`, `isr`,
+ * `dynamic` or `missing` (in source but not in the build)
+ */
+function buildFilter(route: RouteItem, value: string): boolean {
+  if (!route.build) {
+    return false;
+  }
+  const mode = value.toLowerCase();
+  return mode === 'missing' ? route.build.renderMode === null : route.build.renderMode === mode;
+}
+
+/**
+ * `key:value` filters understood by route search, e.g. `method:POST` or `runtime:edge`
+ */
+const ROUTE_SEARCH_FILTERS: Record<string, (route: RouteItem, value: string) => boolean> = {
+  method: (route, value) => route.methods.some(handler => handler.method === value.toUpperCase()),
+  dynamic: segmentConfigFilter('dynamic'),
+  revalidate: segmentConfigFilter('revalidate'),
+  runtime: segmentConfigFilter('runtime'),
+  fetchcache: segmentConfigFilter('fetchCache'),
+  preferredregion: segmentConfigFilter('preferredRegion'),
+  component: componentFilter,
+  build: buildFilter
+};
+
+export interface RouteSearchQuery {
+  text: string;
+  filters: { key: string; values: string[] }[];
+}
+
+/**
+ * Split a search query into free text and `key:value` filters.
+ * Comma-separated values match any of them (`method:GET,POST`).
+ */
+export function parseRouteSearchQuery(query: string): RouteSearchQuery {
+  const text: string[] = [];
+  const filters: RouteSearchQuery['filters'] = [];
+
+  for (const token of query.trim().split(/\s+/).filter(Boolean)) {
+    const filter = /^(\w+):(.+)$/.exec(token);
+    const key = filter?.[1].toLowerCase();
+    if (filter && key && ROUTE_SEARCH_FILTERS[key]) {
+      filters.push({ key, values: filter[2].split(',').filter(Boolean) });
+    } else {
+      text.push(token);
+    }
+  }
+
+  return { text: text.join(' '), filters };
+}
+
+/**
+ * Check a route against every filter of a parsed query
+ */
+export function matchesRouteFilters(route: RouteItem, filters: RouteSearchQuery['filters']): boolean {
+  return filters.every(filter =>
+    filter.values.some(value => ROUTE_SEARCH_FILTERS[filter.key](route, value))
+  );
+}
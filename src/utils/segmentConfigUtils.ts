@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import { RouteFileType, RouteSegmentConfig, SegmentConfigKey, ResolvedSegmentConfig } from '../constants';
+import { AppRouterFile } from './routeUtils';
+
+export const SEGMENT_CONFIG_KEYS: SegmentConfigKey[] = ['dynamic', 'revalidate', 'runtime', 'fetchCache', 'preferredRegion'];
+
+// Files that can export route segment config
+const SEGMENT_CONFIG_FILE_TYPES = [RouteFileType.Page, RouteFileType.Layout, RouteFileType.Route];
+
+/**
+ * Read the segment config a file exports
+ */
+export async function loadSegmentConfig(filePath: string): Promise<RouteSegmentConfig> {
+  try {
+    const source = await fs.promises.readFile(filePath, 'utf8');
+    return parseSegmentConfig(source);
+  } catch (error) {
+    console.error(`Failed to read segment config from ${filePath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Parse `export const dynamic = 'force-dynamic'` style segment config.
+ * Only literal values are understood (strings, numbers, false, string arrays), optionally
+ * followed by `as const`; expressions such as `60 * 60` are not statically known and skipped.
+ */
+export function parseSegmentConfig(source: string): RouteSegmentConfig {
+  const config: RouteSegmentConfig = {};
+  const declaration = /export\s+const\s+(\w+)\s*(?::[^=]+)?=\s*('[^'\n]*'|"[^"\n]*"|`[^`$\n]*`|\d+|false|\[[^\]]*\])(?=[ \t]*(?:as\s+const\b)?[ \t]*(?:;|\/\/|\r?\n|$))/g;
+
+  for (const match of source.matchAll(declaration)) {
+    const key = match[1] as SegmentConfigKey;
+    if (!SEGMENT_CONFIG_KEYS.includes(key) || key in config) {
+      continue;
+    }
+
+    const raw = match[2];
+    if (key === 'revalidate') {
+      if (raw === 'false') {
+        config.revalidate = false;
+      } else if (/^\d+$/.test(raw)) {
+        config.revalidate = Number(raw);
+      }
+    } else if (key === 'preferredRegion' && raw.startsWith('[')) {
+      config.preferredRegion = [...raw.matchAll(/(['"`])([^'"`]*)\1/g)].map(region => region[2]);
+    } else if (/^['"`]/.test(raw)) {
+      config[key] = raw.slice(1, -1);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Resolve the effective segment config of every page, layout and route handler.
+ * Values are inherited from ancestor layouts and overridden by nearer segments,
+ * except `revalidate` where the lowest value along the chain wins.
+ */
+export function resolveSegmentConfigs(
+  files: AppRouterFile[],
+  configs: Map<string, RouteSegmentConfig>
+): Map<string, ResolvedSegmentConfig> {
+  const layouts = files.filter(file => file.fileType === RouteFileType.Layout);
+  const resolved = new Map<string, ResolvedSegmentConfig>();
+
+  for (const file of files) {
+    if (!SEGMENT_CONFIG_FILE_TYPES.includes(file.fileType)) {
+      continue;
+    }
+
+    // Root layout first, the file itself last
+    const chain = [
+      ...layouts.filter(layout => layout !== file && isSegmentPrefix(layout.segments, file.segments)),
+      file
+    ].sort((a, b) => a.segments.length - b.segments.length || (a === file ? 1 : -1));
+
+    const result: ResolvedSegmentConfig = { values: {}, sources: {} };
+    for (const link of chain) {
+      const config = configs.get(link.filePath) || {};
+      for (const key of SEGMENT_CONFIG_KEYS) {
+        const value = config[key];
+        if (value === undefined) {
+          continue;
+        }
+        if (key === 'revalidate' && !isLowerRevalidate(value as number | false, result.values.revalidate)) {
+          continue;
+        }
+        (result.values as Record<SegmentConfigKey, unknown>)[key] = value;
+        result.sources[key] = link.filePath;
+      }
+    }
+
+    if (Object.keys(result.values).length > 0) {
+      resolved.set(file.filePath, result);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * `false` means cache indefinitely, so any number is lower
+ */
+function isLowerRevalidate(value: number | false, current: number | false | undefined): boolean {
+  if (current === undefined || current === false) {
+    return true;
+  }
+  return value !== false && value < current;
+}
+
+function isSegmentPrefix(prefix: string[], segments: string[]): boolean {
+  return prefix.length <= segments.length && prefix.every((segment, index) => segments[index] === segment);
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { AppRouterFile } from './routeUtils';
+import { stripComments } from './nextConfigUtils';
+import { parseComponentDirectives } from './componentTypeUtils';
+import { PathAliases, loadPathAliases, parseImports, resolveImport } from './importUtils';
+
+// A Server Action declared in a module
+export interface ServerActionDeclaration {
+  name: string;
+  // 0-based line of the declaration (of the directive for unnamed inline actions)
+  line: number;
+  // Declared with an inline 'use server' rather than in a 'use server' module
+  inline: boolean;
+}
+
+export interface ServerAction extends ServerActionDeclaration {
+  filePath: string;
+  // Route files whose import graph reaches the action
+  routes: AppRouterFile[];
+}
+
+interface ActionModule {
+  imports: { filePath: string; names: string[] }[];
+}
+
+// Enclosing function of an inline 'use server' body: function name(...), const name = async (...) =>, or a method
+const INLINE_ACTION_OWNER = /(?:function\s*\*?\s*([\w$]+)\s*\([^)]*\)|(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*async\s*(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>|async\s+([\w$]+)\s*\([^)]*\))\s*(?::[^{]*)?$/;
+
+/**
+ * Find the Server Actions a module declares: the async exports of a
+ * 'use server' module, and functions whose body opens with 'use server'
+ */
+export function parseServerActions(source: string): ServerActionDeclaration[] {
+  const cleaned = stripComments(source);
+  const directives = parseComponentDirectives(source);
+  const actions: ServerActionDeclaration[] = [];
+  const add = (name: string, index: number, inline: boolean) => {
+    if (!actions.some(action => action.name === name && action.inline === inline)) {
+      actions.push({ name, line: lineAt(cleaned, index), inline });
+    }
+  };
+
+  if (directives.server) {
+    // export async function save() / export default async function () / export const save = async () =>
+    for (const match of cleaned.matchAll(/export\s+(default\s+)?async\s+function\s*\*?\s*([\w$]*)/g)) {
+      add(match[1] ? 'default' : match[2], match.index, false);
+    }
+    for (const match of cleaned.matchAll(/export\s+(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*async\b/g)) {
+      add(match[1], match.index, false);
+    }
+    // export { save, remove as destroy }
+    for (const match of cleaned.matchAll(/export\s*\{([^}]*)\}(?!\s*from)/g)) {
+      for (const specifier of match[1].split(',')) {
+        const names = /([\w$]+)(?:\s+as\s+([\w$]+))?/.exec(specifier);
+        if (names) {
+          add(names[2] || names[1], match.index, false);
+        }
+      }
+    }
+  }
+
+  for (const match of cleaned.matchAll(/\{\s*(['"])use server\1/g)) {
+    const owner = INLINE_ACTION_OWNER.exec(cleaned.slice(Math.max(0, match.index - 300), match.index));
+    const name = owner?.[1] || owner?.[2] || owner?.[3];
+    const ownerIndex = owner ? match.index - owner[0].length : match.index;
+    add(name || '(anonymous)', Math.max(0, ownerIndex), true);
+  }
+
+  return actions;
+}
+
+/**
+ * Index every Server Action in the candidate files and the route files whose
+ * import graph reaches it (by name for 'use server' modules)
+ */
+export async function buildServerActionIndex(
+  candidateFiles: string[],
+  routeFiles: AppRouterFile[],
+  projectRoot: string
+): Promise<ServerAction[]> {
+  const aliases = await loadPathAliases(projectRoot);
+  const modules = new Map<string, Promise<ActionModule>>();
+  const loadModule = (filePath: string) => {
+    if (!modules.has(filePath)) {
+      modules.set(filePath, readActionModule(filePath, aliases));
+    }
+    return modules.get(filePath)!;
+  };
+
+  const actions: ServerAction[] = [];
+  for (const filePath of candidateFiles) {
+    try {
+      const source = await fs.promises.readFile(filePath, 'utf8');
+      if (!source.includes('use server')) {
+        continue;
+      }
+      actions.push(...parseServerActions(source).map(action => ({ ...action, filePath, routes: [] })));
+    } catch (error) {
+      console.error(`Failed to read ${filePath}:`, error);
+    }
+  }
+  if (actions.length === 0) {
+    return actions;
+  }
+
+  for (const route of routeFiles) {
+    // Modules reachable from the route and the names imported from each ('*' when not known)
+    const reached = new Map<string, Set<string>>([[route.filePath, new Set(['*'])]]);
+    const queue = [route.filePath];
+    while (queue.length > 0) {
+      const current = await loadModule(queue.shift()!);
+      for (const moduleImport of current.imports) {
+        const names = reached.get(moduleImport.filePath);
+        if (!names) {
+          reached.set(moduleImport.filePath, new Set(moduleImport.names));
+          queue.push(moduleImport.filePath);
+        } else {
+          moduleImport.names.forEach(name => names.add(name));
+        }
+      }
+    }
+
+    for (const action of actions) {
+      const names = reached.get(action.filePath);
+      if (names && (action.inline || names.has('*') || names.has(action.name))) {
+        action.routes.push(route);
+      }
+    }
+  }
+
+  return actions;
+}
+
+async function readActionModule(filePath: string, aliases: PathAliases | null): Promise<ActionModule> {
+  try {
+    const source = await fs.promises.readFile(filePath, 'utf8');
+    const imports: ActionModule['imports'] = [];
+    for (const moduleImport of parseImports(source)) {
+      const resolved = await resolveImport(moduleImport.specifier, filePath, aliases);
+      if (resolved) {
+        imports.push({ filePath: resolved, names: moduleImport.names });
+      }
+    }
+    return { imports };
+  } catch {
+    return { imports: [] };
+  }
+}
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length - 1;
+}
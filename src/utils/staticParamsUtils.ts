@@ -0,0 +1,666 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RouteFileType } from '../constants';
+import { AppRouterFile } from './routeUtils';
+import { stripComments } from './nextConfigUtils';
+import { PathAliases, loadPathAliases, resolveImport } from './importUtils';
+
+// One param set returned by generateStaticParams: { slug: 'hello' } or { slug: ['docs', 'intro'] }
+export type StaticParamValues = Record<string, string | string[]>;
+
+export interface StaticParams {
+  // 0-based line of the generateStaticParams export
+  line: number;
+  // The prebuilt param sets, or null when they depend on something only known at build time (fetch, a database...)
+  values: StaticParamValues[] | null;
+  // Directory or file the values were read from, relative to the project root
+  source?: string;
+}
+
+// Files that can export generateStaticParams
+const STATIC_PARAMS_FILE_TYPES = [RouteFileType.Page, RouteFileType.Layout, RouteFileType.Route];
+
+// Param sets kept per route: plenty to pick from without flooding the views
+const MAX_STATIC_PARAMS = 100;
+
+// Evaluation steps per route before giving up on an expression
+const MAX_EVALUATION_STEPS = 5000;
+
+const GENERATE_STATIC_PARAMS = /export\s+(?:async\s+)?function\s+generateStaticParams\b|export\s+(?:const|let|var)\s+generateStaticParams\s*(?::[^=]+)?=/;
+
+interface ModuleSource {
+  filePath: string;
+  source: string;
+}
+
+interface FunctionSource {
+  params: string;
+  // Statements of a block body, searched for local declarations
+  block: string;
+  // The returned expression, null when the function returns nothing found
+  expression: string | null;
+}
+
+interface Scope {
+  values: Map<string, unknown>;
+  // Enclosing function bodies, innermost first
+  blocks: string[];
+}
+
+interface EvaluationContext {
+  projectRoot: string;
+  aliases: PathAliases | null;
+  steps: number;
+  source?: string;
+}
+
+/**
+ * Find the generateStaticParams export of every dynamic page, layout and
+ * route handler, and evaluate the params it returns where that is possible
+ * without running it: literal arrays, and lists built from a local JSON file
+ * or content directory
+ */
+export async function collectStaticParams(files: AppRouterFile[], projectRoot: string): Promise<Map<string, StaticParams>> {
+  const aliases = await loadPathAliases(projectRoot);
+  const result = new Map<string, StaticParams>();
+
+  for (const file of files) {
+    if (!STATIC_PARAMS_FILE_TYPES.includes(file.fileType) || !file.segments.some(segment => segment.startsWith('['))) {
+      continue;
+    }
+    const staticParams = await loadStaticParams(file.filePath, projectRoot, aliases);
+    if (staticParams) {
+      result.set(file.filePath, staticParams);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read the generateStaticParams export of a file, null when it has none
+ */
+export async function loadStaticParams(filePath: string, projectRoot: string, aliases: PathAliases | null): Promise<StaticParams | null> {
+  let source: string;
+  try {
+    source = stripComments(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    console.error(`Failed to read ${filePath}:`, error);
+    return null;
+  }
+
+  const declaration = GENERATE_STATIC_PARAMS.exec(source);
+  if (!declaration) {
+    return null;
+  }
+
+  const line = source.slice(0, declaration.index).split('\n').length - 1;
+  const context: EvaluationContext = { projectRoot, aliases, steps: 0 };
+  try {
+    const fn = parseFunctionAt(source, declaration.index + declaration[0].length);
+    if (!fn.expression) {
+      return { line, values: null };
+    }
+    const evaluator = new StaticEvaluator({ filePath, source }, context);
+    const values = toParamSets(await evaluator.evaluate(fn.expression, { values: new Map(), blocks: [fn.block] }));
+    return { line, values: values && values.slice(0, MAX_STATIC_PARAMS), source: values ? context.source : undefined };
+  } catch {
+    // Computed at build time: only the export itself is known
+    return { line, values: null };
+  }
+}
+
+/**
+ * Keep a value only if it has the shape generateStaticParams returns
+ */
+function toParamSets(value: unknown): StaticParamValues[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const sets: StaticParamValues[] = [];
+  for (const item of value) {
+    if (!isPlainObject(item)) {
+      return null;
+    }
+    const set: StaticParamValues = {};
+    for (const [key, paramValue] of Object.entries(item)) {
+      if (typeof paramValue === 'string' || typeof paramValue === 'number') {
+        set[key] = String(paramValue);
+      } else if (Array.isArray(paramValue) && paramValue.every(part => typeof part === 'string' || typeof part === 'number')) {
+        set[key] = paramValue.map(String);
+      } else {
+        return null;
+      }
+    }
+    sets.push(set);
+  }
+  return sets;
+}
+
+/**
+ * Evaluates the shapes generateStaticParams is usually written in: literal
+ * arrays and objects, `.map`/`.filter` over them, local constants, JSON
+ * imports and fs reads of files and directories inside the project.
+ * Anything else throws.
+ */
+class StaticEvaluator {
+  constructor(private module: ModuleSource, private context: EvaluationContext) {}
+
+  public async evaluate(expression: string, scope: Scope): Promise<unknown> {
+    if (++this.context.steps > MAX_EVALUATION_STEPS) {
+      notStatic(expression);
+    }
+
+    let text = expression.trim().replace(/;$/, '').trim();
+    text = text.replace(/^await\s+/, '');
+
+    // TypeScript casts don't change the value
+    const cast = findTopLevel(text, [' as ', ' satisfies ']);
+    if (cast !== null) {
+      text = text.slice(0, cast).trim();
+    }
+
+    return this.evaluateChain(text, scope);
+  }
+
+  /**
+   * A primary expression followed by member accesses and calls
+   */
+  private async evaluateChain(text: string, scope: Scope): Promise<unknown> {
+    let index = 0;
+    let value: unknown;
+    // Names of a global namespace (`fs.promises.readdir`) until it is called
+    let calleePath: string[] | null = null;
+
+    const char = text[0];
+    if (char === '\'' || char === '"' || char === '`') {
+      const end = skipString(text, 0);
+      value = await this.evaluateString(text.slice(1, end), scope, char === '`');
+      index = end + 1;
+    } else if (char === '/') {
+      const regex = /^\/((?:\\.|\[(?:\\.|[^\]])*\]|[^/\\\n])+)\/([dgimsuy]*)/.exec(text);
+      if (!regex) {
+        notStatic(text);
+      }
+      value = new RegExp(regex[1], regex[2]);
+      index = regex[0].length;
+    } else if (/[\d-]/.test(char)) {
+      const number = /^-?\d+(?:\.\d+)?/.exec(text);
+      if (!number) {
+        notStatic(text);
+      }
+      value = Number(number[0]);
+      index = number[0].length;
+    } else if (char === '[' || char === '{' || char === '(') {
+      const end = findClosing(text, 0);
+      const inner = text.slice(1, end);
+      value = char === '['
+        ? await this.evaluateArray(inner, scope)
+        : char === '{' ? await this.evaluateObject(inner, scope) : await this.evaluate(inner, scope);
+      index = end + 1;
+    } else {
+      const identifier = /^[A-Za-z_$][\w$]*/.exec(text);
+      if (!identifier) {
+        notStatic(text);
+      }
+      const name = identifier[0];
+      index = name.length;
+
+      if (['true', 'false', 'null'].includes(name)) {
+        value = name === 'true' ? true : name === 'false' ? false : null;
+      } else if (scope.values.has(name)) {
+        value = scope.values.get(name);
+      } else {
+        const declared = await this.lookupDeclaration(name, scope);
+        if (declared.found) {
+          value = declared.value;
+        } else {
+          calleePath = [name];
+        }
+      }
+    }
+
+    // Member accesses and calls
+    while (index < text.length) {
+      const rest = text.slice(index);
+      const whitespace = rest.length - rest.trimStart().length;
+      const next = rest.trimStart();
+      index += whitespace;
+
+      const member = /^(?:\?\.|\.)\s*([A-Za-z_$][\w$]*)/.exec(next);
+      if (member) {
+        index += member[0].length;
+        const after = text.slice(index).trimStart();
+        if (calleePath) {
+          calleePath.push(member[1]);
+        } else if (after.startsWith('(')) {
+          const open = text.indexOf('(', index);
+          const end = findClosing(text, open);
+          value = await this.callMethod(value, member[1], splitTopLevel(text.slice(open + 1, end), ','), scope);
+          index = end + 1;
+        } else {
+          value = getMember(value, member[1]);
+        }
+        continue;
+      }
+      if (next.startsWith('(') && calleePath) {
+        const end = findClosing(text, index);
+        value = await this.callGlobal(calleePath, text.slice(index + 1, end), scope);
+        calleePath = null;
+        index = end + 1;
+        continue;
+      }
+      notStatic(text);
+    }
+
+    if (calleePath) {
+      notStatic(text);
+    }
+    return value;
+  }
+
+  /**
+   * The value of a string literal body, interpolating `${}` in template literals
+   */
+  private async evaluateString(template: string, scope: Scope, interpolate: boolean): Promise<string> {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+    let result = '';
+    for (let i = 0; i < template.length; i++) {
+      if (template[i] === '\\') {
+        i++;
+        result += escapes[template[i]] ?? template[i] ?? '';
+      } else if (interpolate && template[i] === '$' && template[i + 1] === '{') {
+        const end = findClosing(template, i + 1);
+        result += String(await this.evaluate(template.slice(i + 2, end), scope));
+        i = end;
+      } else {
+        result += template[i];
+      }
+    }
+    return result;
+  }
+
+  private async evaluateArray(inner: string, scope: Scope): Promise<unknown[]> {
+    const result: unknown[] = [];
+    for (const element of splitTopLevel(inner, ',')) {
+      result.push(await this.evaluate(element, scope));
+    }
+    return result;
+  }
+
+  private async evaluateObject(inner: string, scope: Scope): Promise<Record<string, unknown>> {
+    const result: Record<string, unknown> = {};
+    for (const entry of splitTopLevel(inner, ',')) {
+      const property = /^(?:([A-Za-z_$][\w$]*)|(['"])(.*?)\2)\s*(:)?/s.exec(entry);
+      if (!property) {
+        notStatic(entry);
+      }
+      const key = property[1] ?? property[3];
+      if (property[4]) {
+        result[key] = await this.evaluate(entry.slice(property[0].length), scope);
+      } else if (property[0].length === entry.length && property[1]) {
+        // Shorthand property
+        result[key] = await this.evaluate(key, scope);
+      } else {
+        notStatic(entry);
+      }
+    }
+    return result;
+  }
+
+  private async evaluateArgs(argsText: string, scope: Scope): Promise<unknown[]> {
+    const args: unknown[] = [];
+    for (const arg of splitTopLevel(argsText, ',')) {
+      args.push(await this.evaluate(arg, scope));
+    }
+    return args;
+  }
+
+  /**
+   * Built-in functions: process.cwd(), path.join/resolve/basename/extname, fs reads and JSON.parse
+   */
+  private async callGlobal(calleePath: string[], argsText: string, scope: Scope): Promise<unknown> {
+    const [head] = calleePath;
+    const name = calleePath[calleePath.length - 1];
+    const callee = calleePath.join('.');
+
+    if (callee === 'process.cwd') {
+      return this.context.projectRoot;
+    }
+
+    const args = await this.evaluateArgs(argsText, scope);
+    if (!args.every(arg => typeof arg === 'string')) {
+      notStatic(callee);
+    }
+    const strings = args as string[];
+
+    if (/^(?:readdir|readdirSync|readFile|readFileSync)$/.test(name) && (calleePath.length === 1 || /^(?:fs|fsp|promises)$/.test(head))) {
+      const resolved = this.resolveInProject(strings[0] ?? '');
+      this.context.source = this.context.source ?? (path.relative(this.context.projectRoot, resolved) || '.');
+      if (name.startsWith('readdir')) {
+        return (await fs.promises.readdir(resolved)).filter(entry => !entry.startsWith('.')).sort();
+      }
+      return fs.promises.readFile(resolved, 'utf8');
+    }
+    if (head === 'path' || (calleePath.length === 1 && ['join', 'resolve', 'basename', 'extname'].includes(name))) {
+      switch (name) {
+        case 'join': return path.join(...strings);
+        case 'resolve': return path.resolve(this.context.projectRoot, ...strings);
+        case 'basename': return path.basename(strings[0], strings[1]);
+        case 'extname': return path.extname(strings[0]);
+      }
+    }
+    if (callee === 'JSON.parse') {
+      return JSON.parse(strings[0]);
+    }
+    return notStatic(callee);
+  }
+
+  /**
+   * `.map` and `.filter` over arrays, and the string methods used to turn file names into params
+   */
+  private async callMethod(target: unknown, name: string, args: string[], scope: Scope): Promise<unknown> {
+    if (Array.isArray(target) && (name === 'map' || name === 'filter')) {
+      const callback = parseFunctionAt(args[0] ?? '', 0);
+      const results: unknown[] = [];
+      for (const [index, item] of target.entries()) {
+        results.push(await this.invoke(callback, [item, index], scope));
+      }
+      return name === 'map' ? results : target.filter((_, index) => results[index]);
+    }
+
+    if (typeof target === 'string') {
+      const values: unknown[] = [];
+      for (const arg of args) {
+        values.push(await this.evaluate(arg, scope));
+      }
+      switch (name) {
+        case 'replace': return target.replace(values[0] as string | RegExp, String(values[1]));
+        case 'endsWith': return target.endsWith(String(values[0]));
+      }
+    }
+    return notStatic(`.${name}()`);
+  }
+
+  /**
+   * Call a callback with argument values
+   */
+  private async invoke(fn: FunctionSource, args: unknown[], scope: Scope): Promise<unknown> {
+    if (!fn.expression) {
+      notStatic(fn.block);
+    }
+    const values = new Map(scope.values);
+    splitTopLevel(fn.params, ',').forEach((param, index) => bindParam(param, args[index], values));
+    return this.evaluate(fn.expression, { values, blocks: [fn.block, ...scope.blocks] });
+  }
+
+  /**
+   * Value of a constant declared in an enclosing function or the module, or of a JSON import
+   */
+  private async lookupDeclaration(name: string, scope: Scope): Promise<{ found: boolean; value?: unknown }> {
+    const declaration = new RegExp(`\\b(?:const|let|var)\\s+${escapeRegExp(name)}\\s*(?::[^=]+)?=(?![=>])`);
+    const blocks = [...scope.blocks, this.module.source];
+    for (const [index, block] of blocks.entries()) {
+      const match = declaration.exec(block);
+      if (match) {
+        const value = await this.evaluate(readStatement(block, match.index + match[0].length), { values: scope.values, blocks: blocks.slice(index, -1) });
+        return { found: true, value };
+      }
+    }
+
+    const jsonImport = new RegExp(`\\bimport\\s+${escapeRegExp(name)}\\s*from\\s*(['"])([^'"\\n]+\\.json)\\1`).exec(this.module.source);
+    const filePath = jsonImport ? await resolveImport(jsonImport[2], this.module.filePath, this.context.aliases) : null;
+    if (filePath) {
+      const resolved = this.resolveInProject(filePath);
+      this.context.source = this.context.source ?? path.relative(this.context.projectRoot, resolved);
+      return { found: true, value: JSON.parse(await fs.promises.readFile(resolved, 'utf8')) };
+    }
+    return { found: false };
+  }
+
+  /**
+   * Absolute path of a file read by generateStaticParams; files outside the project are not evaluated
+   */
+  private resolveInProject(target: string): string {
+    const resolved = path.resolve(this.context.projectRoot, target);
+    const relative = path.relative(this.context.projectRoot, resolved);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      notStatic(target);
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Parse a function from its parameters on: `(a, b) => expr`, `async x => { ... }`,
+ * `function (a) { ... }` or the rest of a declaration after its name
+ */
+function parseFunctionAt(source: string, start: number): FunctionSource {
+  let index = skipWhitespace(source, start);
+  const prefix = /^(?:async\b\s*)?(?:function\b\s*\*?\s*[\w$]*\s*)?(?:<[^>()]*>\s*)?/.exec(source.slice(index));
+  index += prefix ? prefix[0].length : 0;
+
+  let params = '';
+  if (source[index] === '(') {
+    const end = findClosing(source, index);
+    params = source.slice(index + 1, end);
+    index = end + 1;
+  } else {
+    const param = /^[A-Za-z_$][\w$]*/.exec(source.slice(index));
+    if (!param) {
+      notStatic(source.slice(start, start + 40));
+    }
+    params = param[0];
+    index += param[0].length;
+  }
+
+  // Return type annotation
+  index = skipWhitespace(source, index);
+  if (source[index] === ':') {
+    let depth = 0;
+    while (index < source.length) {
+      const char = source[index];
+      if (depth === 0 && (char === '{' || source.startsWith('=>', index))) {
+        break;
+      }
+      if (char === '<' || char === '(' || char === '[') {
+        depth++;
+      } else if (char === '>' || char === ')' || char === ']') {
+        depth--;
+      }
+      index++;
+    }
+  }
+
+  index = skipWhitespace(source, index);
+  if (source.startsWith('=>', index)) {
+    index = skipWhitespace(source, index + 2);
+  }
+
+  if (source[index] === '{') {
+    const block = source.slice(index + 1, findClosing(source, index));
+    const returned = findTopLevelReturn(block);
+    return { params, block, expression: returned === null ? null : readStatement(block, returned) };
+  }
+  return { params, block: '', expression: readStatement(source, index) };
+}
+
+/**
+ * Bind a parameter (`item`, `item: Post`, `{ slug, title }`, `index = 0`) to its argument
+ */
+function bindParam(param: string, value: unknown, values: Map<string, unknown>): void {
+  const text = param.trim();
+  if (text.startsWith('{')) {
+    const pattern = text.slice(1, findClosing(text, 0));
+    for (const property of splitTopLevel(pattern, ',')) {
+      const binding = /^([\w$]+)(?:\s*:\s*([\w$]+))?/.exec(property);
+      if (binding) {
+        values.set(binding[2] || binding[1], getMember(value, binding[1]));
+      }
+    }
+    return;
+  }
+  const name = /^[\w$]+/.exec(text);
+  if (name) {
+    values.set(name[0], value);
+  }
+}
+
+function getMember(target: unknown, name: string): unknown {
+  if (!isPlainObject(target)) {
+    return notStatic(`.${name}`);
+  }
+  return Object.prototype.hasOwnProperty.call(target, name) ? target[name] : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp);
+}
+
+function notStatic(expression: string): never {
+  throw new Error(`Not statically known: ${expression.slice(0, 80)}`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function skipWhitespace(source: string, index: number): number {
+  while (index < source.length && /\s/.test(source[index])) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Index of the quote closing the string opened at `start`
+ */
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  let index = start + 1;
+  while (index < source.length && source[index] !== quote) {
+    if (source[index] === '\\') {
+      index++;
+    } else if (quote === '`' && source[index] === '$' && source[index + 1] === '{') {
+      index = findClosing(source, index + 1);
+    }
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Index of the bracket closing the one at `start`, skipping strings
+ */
+function findClosing(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === '\'' || char === '`') {
+      i = skipString(source, i);
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Walk the characters outside strings and brackets, stopping when the visitor returns true
+ */
+function scanTopLevel(source: string, visit: (index: number, depth: number) => boolean): void {
+  let depth = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === '\'' || char === '`') {
+      i = skipString(source, i);
+      continue;
+    }
+    if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (visit(i, depth)) {
+      return;
+    }
+  }
+}
+
+/**
+ * Index of the first of the operators outside strings and brackets
+ */
+function findTopLevel(source: string, operators: string[]): number | null {
+  let found: number | null = null;
+  scanTopLevel(source, (index, depth) => {
+    if (depth === 0 && operators.some(operator => source.startsWith(operator, index))) {
+      found = index;
+      return true;
+    }
+    return false;
+  });
+  return found;
+}
+
+function splitTopLevel(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  scanTopLevel(source, (index, depth) => {
+    if (depth === 0 && source.startsWith(separator, index)) {
+      parts.push(source.slice(start, index));
+      start = index + separator.length;
+    }
+    return false;
+  });
+  parts.push(source.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Index after the last `return` of a function body, outside nested functions
+ */
+function findTopLevelReturn(block: string): number | null {
+  let found: number | null = null;
+  scanTopLevel(block, (index, depth) => {
+    if (depth === 0 && block.startsWith('return', index) && !/[\w$]/.test(block[index - 1] ?? '') && !/[\w$]/.test(block[index + 6] ?? '')) {
+      found = index + 6;
+    }
+    return false;
+  });
+  return found;
+}
+
+/**
+ * The expression starting at `start`, up to its `;`, the end of the enclosing
+ * block, or a line break that ends the statement
+ */
+function readStatement(source: string, start: number): string {
+  let depth = 0;
+  let index = start;
+  for (; index < source.length; index++) {
+    const char = source[index];
+    if (char === '"' || char === '\'' || char === '`') {
+      index = skipString(source, index);
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (--depth < 0) {
+        break;
+      }
+    } else if (depth === 0 && char === ';') {
+      break;
+    } else if (depth === 0 && char === '\n') {
+      const before = source.slice(start, index).trimEnd();
+      const after = source.slice(index).trimStart();
+      if (before && !/[=(,.+\-*/&|?:[{]$/.test(before) && !/^(?:\.|\?\.|\?|:|&&|\|\||\+|\)|\]|\})/.test(after)) {
+        break;
+      }
+    }
+  }
+  return source.slice(start, index).trim();
+}
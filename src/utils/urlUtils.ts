@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { NextConfigInfo, applyNextConfigToPath } from './nextConfigUtils';
 
 /**
  * URL utilities for Next.js radar extension
@@ -128,11 +129,13 @@ export function getDefaultNextjsUrl(port: number = 3000): string {
 }
 
 /**
- * Build Next.js route URL
+ * Build Next.js route URL, applying basePath and trailingSlash when a next.config is given
  */
-export function buildRouteUrl(routePath: string, baseUrl?: string, port?: number): string {
+export function buildRouteUrl(routePath: string, baseUrl?: string, port?: number, nextConfig?: NextConfigInfo): string {
   const base = baseUrl || getDefaultNextjsUrl(port);
-  const normalizedPath = normalizePathname(routePath);
+  const normalizedPath = nextConfig
+    ? applyNextConfigToPath(normalizePathname(routePath), nextConfig)
+    : normalizePathname(routePath);
   
   return `${base}${normalizedPath}`;
 }